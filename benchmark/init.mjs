@@ -0,0 +1,149 @@
+/**
+ * Benchmarks App.init() on a synthetic page in jsdom: the single-pass module scan against one
+ * querySelectorAll per module, and the longest blocking task of init with and without time slicing.
+ *
+ * Run with `npm run benchmark`, which builds the library first.
+ * Use `node benchmark/init.mjs [modules] [elements]` to change the size of the page.
+ */
+import {JSDOM} from "jsdom";
+
+
+
+const moduleCount = Number(process.argv[2]) || 60;
+const elementCount = Number(process.argv[3]) || 20000;
+const moduleElementRatio = 0.1;
+
+
+
+const dom = new JSDOM("<!DOCTYPE html><html><body></body></html>", { pretendToBeVisual: true });
+
+for (const key of [
+    "window", "document", "Node", "NodeFilter", "Element", "HTMLElement", "Event", "CustomEvent",
+    "MutationObserver", "AbortController", "AbortSignal", "requestAnimationFrame", "cancelAnimationFrame",
+]) {
+    globalThis[key] = dom.window[key];
+}
+
+const {App, Module} = await import("../dist/index.cjs.js");
+
+
+
+const modules = Array.from({ length: moduleCount }, (_, index) => class extends Module {
+    static name = `module-${index}`;
+
+    init()
+    {
+        super.init();
+        this.addEventListener(this.el, "click", this.onClick);
+    }
+
+    onClick() {}
+});
+
+/**
+ * Renders a page with nested sections, where every tenth element is the element of a random module.
+ *
+ * @returns {string} The HTML of the page.
+ */
+function renderPage()
+{
+    let html = "";
+
+    for (let i = 0; i < elementCount; i++) {
+        const attribute = Math.random() < moduleElementRatio
+            ? ` data-module-module-${Math.floor(Math.random() * moduleCount)}`
+            : "";
+
+        html += i % 10 === 0 ? `<section${attribute}>` : `<div class="item"${attribute}><span>${i}</span></div>`;
+        html += i % 10 === 9 ? "</section>" : "";
+    }
+
+    return html;
+}
+
+/**
+ * Returns the median duration of a function in milliseconds.
+ *
+ * @param {() => void} fn - The function to measure.
+ * @param {number} runs - The number of runs.
+ * @returns {number} The median duration.
+ */
+function measure(fn, runs = 10)
+{
+    const durations = [];
+
+    for (let i = 0; i < runs; i++) {
+        const start = performance.now();
+        fn();
+        durations.push(performance.now() - start);
+    }
+
+    return durations.sort((a, b) => a - b)[Math.floor(runs / 2)];
+}
+
+/**
+ * Initializes a new app and measures the total duration and the longest task, which is the longest gap between
+ * two macrotasks scheduled with setImmediate() while init() runs.
+ *
+ * @param {number} initBudget - The init budget of the app.
+ * @returns {Promise<{total: number, longestTask: number, tasks: number}>} The measurements.
+ */
+async function measureInit(initBudget)
+{
+    document.body.innerHTML = renderPage();
+
+    const app = new App({ modules, initBudget });
+    let longestTask = 0;
+    let tasks = 0;
+    let last = performance.now();
+    let done = false;
+
+    const probe = () => {
+        const now = performance.now();
+
+        longestTask = Math.max(longestTask, now - last);
+        last = now;
+        tasks++;
+
+        !done && setImmediate(probe);
+    };
+
+    setImmediate(probe);
+
+    const start = performance.now();
+    await app.init();
+    const total = performance.now() - start;
+
+    done = true;
+    probe();
+    await app.destroy();
+
+    return { total, longestTask, tasks };
+}
+
+const format = (ms) => `${ms.toFixed(1)} ms`;
+
+
+
+document.body.innerHTML = renderPage();
+
+const app = new App({ modules });
+const names = modules.map((module) => module.getName());
+
+console.log(`${moduleCount} modules, ${elementCount} elements\n`);
+
+console.log("Scan");
+console.log(`  querySelectorAll per module  ${format(measure(() => {
+    names.forEach((name) => document.documentElement.querySelectorAll(`[data-module-${name}]`));
+}))}`);
+console.log(`  single pass                  ${format(measure(() => {
+    app.queryModuleElements(document.documentElement);
+}))}`);
+
+console.log("\nInit");
+
+for (const budget of [Infinity, 50, 10]) {
+    const { total, longestTask, tasks } = await measureInit(budget);
+
+    console.log(`  initBudget ${String(budget).padEnd(8)}  total ${format(total).padEnd(10)}  longest task ${format(longestTask).padEnd(10)}  tasks ${tasks}`);
+}
@@ -5,15 +5,22 @@ import typescript from "@rollup/plugin-typescript";
 
 
 export default [{
-    input: "src/index.ts",
+    input: {
+        index: "src/index.ts",
+        testing: "src/testing.ts",
+    },
     output: [
         {
-            file: "dist/index.cjs.js",
+            dir: "dist",
             format: "cjs",
+            entryFileNames: "[name].cjs.js",
+            chunkFileNames: "[name]-[hash].cjs.js",
         },
         {
-            file: "dist/index.esm.js",
+            dir: "dist",
             format: "esm",
+            entryFileNames: "[name].esm.js",
+            chunkFileNames: "[name]-[hash].esm.js",
         },
     ],
     plugins: [
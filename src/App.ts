@@ -1,13 +1,98 @@
-import {Module} from "./Module";
+import {
+    AttributeConvention,
+    getElementModuleNames,
+    getModuleMarkerAttributeName,
+    resolveAttributeConvention,
+} from "./attributes";
+import {EventDelegator} from "./EventDelegator";
+import {EventEmitter} from "./EventEmitter";
+import {InitStrategy, Module, ModuleInstanceCache, ModuleLifecyclePhase} from "./Module";
+import {AppPlugin, PluginContext, runCreateHooks, runLifecycleHooks} from "./plugins";
+import {ServiceContainer, ServiceFactory, ServiceKey, ServiceProvider, ServiceScope} from "./services";
+import {
+    compareDocumentPosition,
+    isFirstCharUppercase,
+    isPromise,
+    MaybePromise,
+    onIdle,
+    onInteraction,
+    onMediaMatch,
+    onVisible,
+    pascalToKebab,
+    runInChunks,
+    watchMediaQuery,
+    whenAll,
+    whenDone,
+} from "./utils";
 
 
 
-export type ModuleClass = typeof Module;
+export type ModuleClass<M extends Module<any, any, any> = Module<any, any, any>> = Omit<typeof Module, "prototype"> & (new (el: HTMLElement) => M);
 export type ModuleClassArray = ModuleClass[];
 
+export type ModuleLoader = {
+    name: string,
+    aliases?: string[],
+    load: () => Promise<ModuleClass | Record<string, unknown>>,
+}
+export type ModuleDefinition = ModuleClass | ModuleLoader;
+
+
+export type ModuleErrorPhase = "load" | "create" | ModuleLifecyclePhase | "listener";
+export type ModuleErrorContext = {
+    module: null | Module<any, any, any>,
+    name: string,
+    element: HTMLElement,
+    phase: ModuleErrorPhase,
+}
+export type ModuleErrorHandler = (error: unknown, context: ModuleErrorContext) => void;
+
+export type RetryPolicy = {
+    attempts: number,
+    delay?: number,
+}
+
 
 export type AppOptions = {
-    modules: ModuleClassArray,
+    modules: ModuleDefinition[],
+    root?: HTMLElement,
+    services?: ServiceProvider[],
+    plugins?: AppPlugin[],
+    observe?: boolean | HTMLElement,
+    delegate?: boolean,
+    attributes?: Partial<AttributeConvention>,
+    initOrder?: "parent-first" | "child-first",
+    initBudget?: number,
+    onError?: ModuleErrorHandler,
+    retry?: RetryPolicy,
+    debug?: boolean,
+}
+
+
+
+/**
+ * The apps, keyed by their root element, in the order they were created.
+ */
+const appRoots: WeakMap<Node, App[]> = new WeakMap();
+
+/**
+ * Returns the apps whose root is the closest to the node.
+ *
+ * @param {Node} node - The node.
+ * @returns {App[]} The apps sharing the closest root, or an empty array if the node isn't inside the root of an app.
+ */
+function getClosestApps(node: Node): App[]
+{
+    let current: null | Node = node;
+
+    while (current) {
+        const apps = appRoots.get(current);
+        if (apps) return apps;
+
+        current = current.parentNode;
+    }
+
+    return [];
 }
 
 
@@ -20,11 +105,67 @@ export type AppOptions = {
 export class App {
 
     /**
-     * The array of available module classes.
+     * The array of available module classes and module loaders.
+     * @private
+     * @readonly
+     */
+    private readonly modules: ModuleDefinition[];
+
+    /**
+     * The module classes and module loaders, keyed by module name.
+     * @private
+     * @readonly
+     */
+    private readonly moduleIndex: Map<string, ModuleDefinition>;
+
+    /**
+     * The order in which `init()` is called on nested modules initialized together.
+     * @private
+     * @readonly
+     */
+    private readonly initOrder: "parent-first" | "child-first";
+
+    /**
+     * The time in milliseconds `init()` creates and initializes modules before yielding to the main thread.
+     * @private
+     * @readonly
+     */
+    private readonly initBudget: number;
+
+    /**
+     * The handler module errors are routed to.
+     * @private
+     * @readonly
+     */
+    private readonly onError: null | ModuleErrorHandler;
+
+    /**
+     * The policy for retrying to create and initialize modules that failed to do so.
+     * @private
+     * @readonly
+     */
+    private readonly retry: null | RetryPolicy;
+
+    /**
+     * Whether module errors are logged to the console even if an error handler is set.
+     * @private
+     * @readonly
+     */
+    private readonly debug: boolean;
+
+    /**
+     * The number of retries per element and module name.
      * @private
      * @readonly
      */
-    private readonly modules: ModuleClassArray;
+    private readonly retryAttempts: WeakMap<HTMLElement, Record<string, number>>;
+
+    /**
+     * Pending or settled imports of lazy loaded modules, keyed by module name.
+     * @private
+     * @readonly
+     */
+    private readonly moduleLoads: Map<string, Promise<ModuleClass>>;
 
     /**
      * Instances of modules associated with HTML elements.
@@ -32,6 +173,104 @@ export class App {
      */
     private moduleInstances: Map<HTMLElement, Record<string, Module>>;
 
+    /**
+     * All instances ever created by the app, reused when their elements are initialized again.
+     * @private
+     * @readonly
+     */
+    private readonly instanceCache: ModuleInstanceCache;
+
+    /**
+     * Cancel functions of modules waiting for their init strategy to trigger, keyed by element and module name.
+     * @private
+     */
+    private pendingModuleInstances: Map<HTMLElement, Record<string, () => void>>;
+
+    /**
+     * Functions that stop watching the media queries of module elements, keyed by element and module name.
+     * @private
+     */
+    private mediaWatchers: Map<HTMLElement, Record<string, () => void>>;
+
+    /**
+     * The root element watched for DOM mutations, or null when observing is disabled.
+     * @private
+     * @readonly
+     */
+    private readonly observeRoot: null | HTMLElement;
+
+    /**
+     * The mutation observer used to automatically initialize and destroy modules.
+     * @private
+     */
+    private observer: null | MutationObserver;
+
+    /**
+     * Mutations collected since the last frame, processed at once by `flushMutations()`.
+     * @private
+     */
+    private pendingMutations: MutationRecord[];
+
+    /**
+     * The id of the scheduled animation frame that flushes pending mutations.
+     * @private
+     */
+    private mutationFrame: null | number;
+
+    /**
+     * The element the app is scoped to. Elements inside the root of another app are left to that app.
+     * @readonly
+     */
+    readonly root: HTMLElement;
+
+    /**
+     * The event bus shared by all modules of the app.
+     * @readonly
+     */
+    readonly events: EventEmitter;
+
+    /**
+     * The delegator installing one root listener per event type for filtered and declarative module listeners,
+     * or null when event delegation is disabled.
+     * @readonly
+     */
+    readonly delegator: null | EventDelegator;
+
+    /**
+     * The convention of the attributes, or classes, module elements, refs and options are marked with.
+     * @readonly
+     */
+    readonly attributes: AttributeConvention;
+
+    /**
+     * The services modules of the app can inject.
+     * @readonly
+     */
+    readonly services: ServiceContainer;
+
+    /**
+     * The plugins hooking into the module lifecycles, in registration order.
+     * @private
+     * @readonly
+     */
+    private readonly plugins: AppPlugin[];
+
+    /**
+     * A promise that resolves once the first `init()` has finished, including asynchronous lifecycle hooks.
+     * @readonly
+     */
+    readonly ready: Promise<void>;
+
+    /**
+     * Resolves the `ready` promise.
+     * @private
+     * @readonly
+     */
+    private readonly resolveReady: () => void;
+
+    /**
+     * The app created last. Prefer `this.app` in modules or `App.getApp()` when several apps share the page.
+     */
     static instance: App;
 
 
@@ -44,72 +283,1250 @@ export class App {
     constructor(options: AppOptions) {
         App.instance = this;
 
-        this.modules = options.modules;
+        this.modules = [];
+        this.moduleIndex = new Map();
+        this.initOrder = options.initOrder || "parent-first";
+        this.initBudget = options.initBudget ?? 50;
+        this.onError = options.onError || null;
+        this.retry = options.retry || null;
+        this.debug = options.debug || false;
+        this.retryAttempts = new WeakMap();
+        this.moduleLoads = new Map();
 
+        this.root = options.root || document.documentElement;
         this.moduleInstances = new Map();
+        this.instanceCache = new WeakMap();
+        this.events = new EventEmitter();
+        this.delegator = options.delegate ? new EventDelegator(this.root) : null;
+        this.attributes = resolveAttributeConvention(options.attributes);
+        this.services = new ServiceContainer(this);
+        this.plugins = [];
+
+        let resolveReady!: () => void;
+        this.ready = new Promise((resolve) => resolveReady = resolve);
+        this.resolveReady = resolveReady;
+        this.pendingModuleInstances = new Map();
+        this.mediaWatchers = new Map();
+
+        if (options.observe) {
+            this.observeRoot = options.observe instanceof HTMLElement ? options.observe : this.root;
+        } else {
+            this.observeRoot = null;
+        }
+
+        this.observer = null;
+        this.pendingMutations = [];
+        this.mutationFrame = null;
+
+        appRoots.set(this.root, [...appRoots.get(this.root) || [], this]);
+
+        // The elements inside the root belong to this app, even if an ancestor app has initialized them already.
+        this.root.parentNode && getClosestApps(this.root.parentNode).forEach((app) => app.releaseRoot(this.root));
+
+        options.services?.forEach((provider) => this.services.provide(provider));
+        options.plugins?.forEach((plugin) => this.use(plugin));
+
+        this.register(options.modules);
+    }
+
+
+
+    /**
+     * Returns the app owning a node, which is the app with the closest root element containing the node.
+     * If several apps share that root, the one created first is returned.
+     *
+     * @param {Node} node - The node.
+     * @returns {null | App} The app, or null if the node isn't inside the root of an app.
+     */
+    static getApp(node: Node): null | App
+    {
+        return getClosestApps(node)[0] || null;
+    }
+
+    /**
+     * Registers module classes or module loaders. Their elements are initialized on the next `init()`.
+     * Registering a module twice is ignored.
+     *
+     * @param {ModuleDefinition | ModuleDefinition[]} modules - The module classes or module loaders.
+     * @throws {Error} If a name or alias isn't kebab-case or is already used by another module.
+     * @note A warning is logged for names that look minified, e.g. "e". Set a static `name` on such classes.
+     */
+    register(modules: ModuleDefinition | ModuleDefinition[]): void
+    {
+        for (const definition of Array.isArray(modules) ? modules : [modules]) {
+            if (this.modules.includes(definition)) continue;
+
+            const names = this.getModuleNames(definition);
+
+            names.forEach((name, index) => this.validateModuleName(name, definition, names.indexOf(name) !== index));
+
+            this.modules.push(definition);
+            names.forEach((name) => this.moduleIndex.set(name, definition));
+            this.plugins.forEach((plugin) => plugin.onRegister?.(definition, this));
+        }
+
+        this.observeModuleAttributes();
+    }
+
+    /**
+     * Adds a plugin hooking into the module lifecycles. Hooks of several plugins run in the order the plugins were
+     * added, `onRegister` is called for the modules registered so far right away. Adding a plugin twice is ignored.
+     *
+     * @example app.use({ afterInit: ({ name }, next) => { performance.mark(name); return next(); } });
+     *
+     * @param {AppPlugin} plugin - The plugin.
+     * @returns {this} The app, to chain calls.
+     */
+    use(plugin: AppPlugin): this
+    {
+        if (this.plugins.includes(plugin)) return this;
+
+        this.plugins.push(plugin);
+        this.modules.forEach((definition) => plugin.onRegister?.(definition, this));
+
+        return this;
+    }
+
+    /**
+     * Registers a service provider, replacing a previous provider of the key for the same element.
+     * Services are created lazily, when a module injects them the first time.
+     *
+     * @example app.provide(Scroll, () => new Scroll());
+     *
+     * @template T - The type of the service.
+     * @param {ServiceKey<T>} key - The service key, a class or a key created with `createServiceKey()`.
+     * @param {ServiceFactory<T>} factory - The function creating the service.
+     * @param {{scope?: ServiceScope, within?: Element}} [options] - The scope of the service, `singleton` by default,
+     * and the element the provider is limited to, overriding other providers for the modules inside it.
+     * @returns {() => void} A function that removes the provider again.
+     */
+    provide<T>(key: ServiceKey<T>, factory: ServiceFactory<T>, options?: { scope?: ServiceScope, within?: Element }): () => void
+    {
+        return this.services.provide({ key, factory, ...options });
     }
 
+    /**
+     * Unregisters a module class or module loader and destroys its instances. Pending instances are cancelled.
+     *
+     * @param {ModuleDefinition} module - The module class or module loader.
+     * @returns {Promise<void>} A promise that resolves once the instances of the module are destroyed.
+     */
+    unregister(module: ModuleDefinition): Promise<void>
+    {
+        const index = this.modules.indexOf(module);
+        if (index === -1) return Promise.resolve();
+
+        const name = this.getModuleName(module);
 
+        this.modules.splice(index, 1);
+        this.getModuleNames(module).forEach((alias) => this.moduleIndex.delete(alias));
+        this.moduleLoads.delete(name);
+        this.observeModuleAttributes();
+
+        const { instances } = this.releaseModule(name);
+
+        return Promise.resolve(this.runChildrenFirst(instances, "destroy"));
+    }
 
     /**
-     * Initialize modules within a specified context or the entire document.
+     * Initialize modules within a specified context or the root of the app.
+     *
+     * The context is scanned once for the elements of all modules. Module classes are created right away,
+     * module loaders are only imported if the context contains at least one of their elements.
+     * Modules created together are initialized in DOM order (see `initOrder`) and their `ready()` hooks are called
+     * afterwards, children before parents. Creating and initializing yields to the main thread whenever it takes
+     * longer than `initBudget`, so large pages don't block input in one long task.
      *
      * @param {ParentNode} [context] - The context in which to initialize modules.
+     * @returns {Promise<void>} A promise that resolves once all modules, including lazy loaded modules and
+     * asynchronous lifecycle hooks, are initialized.
+     * @note Elements that already hold an instance of a module are skipped, so calling `init()` twice is safe.
      */
-    init(context?: ParentNode) {
+    init(context?: ParentNode): Promise<void> {
         if (!context) {
-            context = document.documentElement;
+            context = this.root;
         }
 
-        for (const module of this.modules) {
-            const name = module.getName();
-            const moduleAttribute = `data-module-${name}`;
-            const elements = Array.from(context.querySelectorAll<HTMLElement>(`[${moduleAttribute}]`));
+        this.observe();
 
-            if (context instanceof HTMLElement && context.hasAttribute(moduleAttribute)) {
-                elements.push(context);
-            }
+        const loads: MaybePromise[] = [];
+        const entries: [ModuleClass, HTMLElement, ModuleDefinition][] = [];
 
-            for (const element of elements) {
-                const moduleInstance = module.create(element);
-                moduleInstance.init();
+        for (const [name, elements] of this.queryModuleElements(context)) {
+            const definition = this.moduleIndex.get(name)!;
 
-                this.moduleInstances.set(element, {
-                    ...this.moduleInstances.get(element) || {},
-                    [name]: moduleInstance,
-                });
+            if (!this.isModuleLoader(definition)) {
+                elements.forEach((element) => entries.push([definition, element, definition]));
+                continue;
             }
+
+            loads.push(this.loadModule(definition).then(
+                (module) => this.createAndInitModuleInstances(elements.map((element) => [module, element, definition])),
+                (error) => elements.forEach((element) => this.reportError(error, { module: null, name, element, phase: "load" }))
+            ));
         }
+
+        loads.push(this.createAndInitModuleInstances(entries));
+
+        return Promise.resolve(whenAll(loads)).then(this.resolveReady);
     }
 
     /**
-     * Destroy modules within a specified context or the entire document.
+     * Destroy modules within a specified context or the root of the app. Children are destroyed before their parents.
+     * Without a context, the app also stops watching the DOM until the next `init()`.
+     * The services of the app are kept, use `dispose()` to tear down the app as a whole.
      *
      * @param {ParentNode} [context] - The context in which to destroy modules.
+     * @returns {Promise<void>} A promise that resolves once all modules, including asynchronous lifecycle hooks,
+     * are destroyed.
      * @memberof App
      */
-    destroy(context?: ParentNode) {
-        for (const [element, instances] of this.moduleInstances.entries()) {
+    destroy(context?: ParentNode): Promise<void> {
+        !context && this.disconnect();
+
+        for (const [element, pending] of this.pendingModuleInstances.entries()) {
             if (context && context !== element && !context.contains(element)) continue;
 
-            Object.values(instances).forEach((instance) => {
-                instance.destroy();
-                this.unregisterModuleInstance(element, instance);
-            });
+            Object.values(pending).forEach((cancel) => cancel());
+            this.pendingModuleInstances.delete(element);
+        }
+
+        for (const [element, watchers] of this.mediaWatchers.entries()) {
+            if (context && context !== element && !context.contains(element)) continue;
+
+            Object.values(watchers).forEach((stop) => stop());
+            this.mediaWatchers.delete(element);
+        }
+
+        const instances: Module[] = [];
+
+        for (const [element, elementInstances] of this.moduleInstances.entries()) {
+            if (context && context !== element && !context.contains(element)) continue;
+
+            instances.push(...Object.values(elementInstances));
+            this.unregisterModuleInstance(element);
         }
+
+        return Promise.resolve(this.runChildrenFirst(instances, "destroy"));
+    }
+
+    /**
+     * Tears down the app: destroys all modules, stops watching the DOM and, once the modules are destroyed, disposes
+     * the singleton services and removes the root listeners of the event delegation.
+     * The root is released, so an ancestor app can initialize its elements again.
+     *
+     * @returns {Promise<void>} A promise that resolves once all modules are destroyed and the app is torn down.
+     */
+    dispose(): Promise<void>
+    {
+        const destroyed = this.destroy();
+
+        const apps = (appRoots.get(this.root) || []).filter((app) => app !== this);
+        apps.length ? appRoots.set(this.root, apps) : appRoots.delete(this.root);
+        this.services.dispose(destroyed);
+
+        return destroyed.then(() => this.delegator?.disconnect());
     }
 
     /**
-     * Initializes and destroys modules within a specified context or the entire document.
+     * Initializes and destroys modules within a specified context or the root of the app.
+     * Modules reusing their instance are only initialized again once their destruction has finished.
      *
      * @param {ParentNode} [context] - The context in which to initialize modules.
+     * @returns {Promise<void>} A promise that resolves once all modules are destroyed and initialized again.
+     */
+    update(context?: ParentNode): Promise<void> {
+        const destroyed = this.destroy(context);
+        const initialized = this.init(context);
+
+        return Promise.all([destroyed, initialized]).then(() => undefined);
+    }
+
+    /**
+     * Replaces a module class with a new version of it, e.g. on a hot update during development.
+     * All instances of the old class are destroyed, instances of the new class are created on the same elements and
+     * initialized in place. State is carried over by `serializeState()` and `restoreState()` if the classes implement
+     * them. Pending and media bound elements of the module are scheduled again with the new class, instances of other
+     * modules are left untouched.
+     *
+     * @param {ModuleClass} oldModule - The module class to replace.
+     * @param {ModuleClass} newModule - The new version of the module class. It must have the same name.
+     * @returns {Promise<void>} A promise that resolves once the new instances are initialized.
+     */
+    replaceModule(oldModule: ModuleClass, newModule: ModuleClass): Promise<void>
+    {
+        const name = oldModule.getName();
+
+        if (newModule.getName() !== name) {
+            console.warn(`Module "${newModule.getName()}" can't replace module "${name}", the names must match.`);
+            return Promise.resolve();
+        }
+
+        const definition = this.moduleIndex.get(name);
+
+        if (definition && this.isModuleLoader(definition)) {
+            this.moduleLoads.set(name, Promise.resolve(newModule));
+        } else if (definition) {
+            this.modules.splice(this.modules.indexOf(definition), 1, newModule);
+            this.getModuleNames(definition).forEach((alias) => this.moduleIndex.delete(alias));
+            this.getModuleNames(newModule).forEach((alias) => this.moduleIndex.set(alias, newModule));
+            this.observeModuleAttributes();
+        }
+
+        const { elements, instances } = this.releaseModule(name);
+        const states = new Map<HTMLElement, unknown>();
+
+        for (const instance of instances) {
+            try {
+                instance.serializeState && states.set(instance.el, instance.serializeState());
+            } catch (error) {
+                this.reportError(error, { module: instance, name, element: instance.el, phase: "destroy" });
+            }
+        }
+
+        const destroyed = this.runChildrenFirst(instances, "destroy");
+
+        return Promise.resolve(whenDone(destroyed, () => {
+            const connected = Array.from(elements).filter((element) => element.isConnected);
+            const created: Module[] = [];
+
+            // Replaced instances are created right away, the others according to their init strategy and media query.
+            for (const instance of instances) {
+                const replacement = instance.el.isConnected && this.createModuleInstance(newModule, instance.el);
+                replacement && created.push(replacement);
+            }
+
+            created.push(...this.createModuleInstances(newModule, connected));
+
+            return whenDone(this.initModuleInstances(created), () => {
+                for (const instance of created) {
+                    if (!states.has(instance.el) || !instance.restoreState || !this.isRegistered(instance)) continue;
+
+                    try {
+                        instance.restoreState(states.get(instance.el));
+                    } catch (error) {
+                        this.reportError(error, { module: instance, name, element: instance.el, phase: "init" });
+                    }
+                }
+            });
+        }));
+    }
+
+    /**
+     * Routes a module error to the `onError` handler and the plugins, and marks the module element with a
+     * `data-module-<name>-error` attribute holding the failed phase. Errors are logged to the console if no handler
+     * is set or `debug` is enabled.
+     *
+     * @param {unknown} error - The error.
+     * @param {ModuleErrorContext} context - The module, element and phase the error occurred in.
+     */
+    reportError(error: unknown, context: ModuleErrorContext): void
+    {
+        context.element.setAttribute(getModuleMarkerAttributeName(this.attributes, context.name, "error"), context.phase);
+
+        if (this.debug || !this.onError) {
+            console.error(`Module "${context.name}" failed in phase "${context.phase}".`, error, context.element);
+        }
+
+        this.onError?.(error, context);
+        this.plugins.forEach((plugin) => plugin.onError?.(error, context));
+    }
+
+    /**
+     * Returns the instance of a module associated with the given element.
+     *
+     * @template M - The type of the module.
+     * @param {HTMLElement} element - The module element.
+     * @param {ModuleClass<M>} module - The module class.
+     * @returns {null | M} The module instance, or null if the element has no instance of the module.
      */
-    update(context?: ParentNode) {
-        this.destroy(context);
-        this.init(context);
+    getModule<M extends Module<any, any, any>>(element: HTMLElement, module: ModuleClass<M>): null | M
+    {
+        return (this.moduleInstances.get(element)?.[module.getName()] as M) || null;
     }
 
+    /**
+     * Returns all instances of a module within a specified context or the root of the app, in DOM order.
+     *
+     * @template M - The type of the module.
+     * @param {ModuleClass<M>} module - The module class.
+     * @param {ParentNode} [context] - The context in which to search.
+     * @returns {M[]} The module instances.
+     */
+    getModules<M extends Module<any, any, any>>(module: ModuleClass<M>, context?: ParentNode): M[]
+    {
+        const name = module.getName();
+        const elements: HTMLElement[] = [];
+
+        for (const [element, instances] of this.moduleInstances.entries()) {
+            if (!instances[name]) continue;
+            if (context && context !== element && !context.contains(element)) continue;
+
+            elements.push(element);
+        }
+
+        return elements
+            .sort(compareDocumentPosition)
+            .map((element) => this.moduleInstances.get(element)![name] as M);
+    }
 
+    /**
+     * Returns the instance of a module whose element has the given id as value of its module attribute,
+     * e.g. `data-module-player="hero"`.
+     *
+     * @template M - The type of the module.
+     * @param {ModuleClass<M>} module - The module class.
+     * @param {string} id - The value of the module attribute.
+     * @returns {null | M} The module instance, or null if not found.
+     */
+    getModuleById<M extends Module<any, any, any>>(module: ModuleClass<M>, id: string): null | M
+    {
+        const name = module.getName();
+
+        for (const [element, instances] of this.moduleInstances.entries()) {
+            if (instances[name] && module.getAttributeValue(element, undefined, this.attributes) === id) {
+                return instances[name] as M;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the parent module of a module, which is the first module instance on the closest ancestor module element.
+     *
+     * @param {Module} module - The module instance.
+     * @returns {null | Module} The parent module, or null if the module is not nested in another module.
+     */
+    getParentModule(module: Module<any, any, any>): null | Module<any, any, any>
+    {
+        let element = module.el.parentElement;
+
+        while (element) {
+            const instances = this.moduleInstances.get(element);
+
+            if (instances) {
+                return Object.values(instances)[0];
+            }
+
+            element = element.parentElement;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the direct child modules of a module in DOM order.
+     *
+     * @param {Module} module - The module instance.
+     * @returns {Module[]} The child modules.
+     */
+    getChildModules(module: Module<any, any, any>): Module<any, any, any>[]
+    {
+        const children: Module[] = [];
+
+        for (const element of Array.from(this.moduleInstances.keys()).sort(compareDocumentPosition)) {
+            if (element === module.el || !module.el.contains(element)) continue;
+
+            for (const instance of Object.values(this.moduleInstances.get(element)!)) {
+                if (this.getParentModule(instance)?.el === module.el) {
+                    children.push(instance);
+                }
+            }
+        }
+
+        return children;
+    }
+
+    /**
+     * Starts watching the DOM for added or removed module elements and module attributes.
+     * Does nothing if the `observe` option is disabled or the observer is already running.
+     */
+    observe(): void
+    {
+        if (!this.observeRoot || this.observer) return;
+
+        this.observer = new MutationObserver((mutations) => {
+            this.pendingMutations.push(...mutations);
+
+            if (this.mutationFrame === null) {
+                this.mutationFrame = requestAnimationFrame(() => this.flushMutations());
+            }
+        });
+
+        this.observeModuleAttributes();
+    }
+
+    /**
+     * Stops watching the DOM. Pending mutations are discarded.
+     */
+    disconnect(): void
+    {
+        this.observer?.disconnect();
+        this.observer = null;
+        this.pendingMutations = [];
+
+        if (this.mutationFrame !== null) {
+            cancelAnimationFrame(this.mutationFrame);
+            this.mutationFrame = null;
+        }
+    }
+
+
+
+    /**
+     * Observes the observe root with the attributes of the registered modules, or the class attribute if module
+     * elements are marked by classes, if the observer is running. Observing the same root again replaces the
+     * previous options.
+     *
+     * @private
+     */
+    private observeModuleAttributes(): void
+    {
+        if (!this.observeRoot || !this.observer) return;
+
+        this.observer.observe(this.observeRoot, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: this.attributes.classPrefix !== null
+                ? ["class"]
+                : Array.from(this.moduleIndex.keys(), (name) => getModuleMarkerAttributeName(this.attributes, name)),
+        });
+    }
+
+    /**
+     * Returns the elements of all modules within the given context, including the context itself.
+     * The context is walked once and the module attributes, or classes, of each element are matched against the
+     * module names, instead of querying the context once per module. Elements outside of the app's root and
+     * inside the roots of nested apps are skipped.
+     *
+     * @param {ParentNode} context - The context in which to search.
+     * @returns {Map<string, HTMLElement[]>} The module elements in DOM order, keyed by module name.
+     * @private
+     */
+    private queryModuleElements(context: ParentNode): Map<string, HTMLElement[]>
+    {
+        const root = context !== this.root && context.contains(this.root) ? this.root : context as Node;
+        const elementsByName = new Map<string, HTMLElement[]>();
+
+        if (!this.ownsNode(root)) return elementsByName;
+
+        const walker = (root.ownerDocument || document).createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
+            acceptNode: (node) => appRoots.has(node) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+        });
+        let node = root.nodeType === Node.ELEMENT_NODE ? root : walker.nextNode();
+
+        while (node) {
+            for (const name of getElementModuleNames(this.attributes, node as HTMLElement)) {
+                if (!this.moduleIndex.has(name)) continue;
+
+                const elements = elementsByName.get(name);
+                elements ? elements.push(node as HTMLElement) : elementsByName.set(name, [node as HTMLElement]);
+            }
+
+            node = walker.nextNode();
+        }
+
+        return elementsByName;
+    }
+
+    /**
+     * Creates the module instances of the given elements and initializes them, in chunks of `initBudget`.
+     * Elements removed from the document and modules unregistered while loading or waiting for the next chunk
+     * are skipped.
+     *
+     * @param {[ModuleClass, HTMLElement, ModuleDefinition][]} entries - The module classes, their elements and the
+     * registered module classes or module loaders they belong to.
+     * @returns {MaybePromise} A promise if the work was split into chunks or any lifecycle hook is asynchronous,
+     * otherwise undefined.
+     * @private
+     */
+    private createAndInitModuleInstances(entries: [ModuleClass, HTMLElement, ModuleDefinition][]): MaybePromise
+    {
+        const connected = entries.map(([, element]) => element.isConnected);
+        const instances: Module[] = [];
+        let index = 0;
+
+        const created = runInChunks(entries, ([module, element, definition]) => {
+            if (connected[index++] && !element.isConnected) return;
+            if (!this.modules.includes(definition) || !this.ownsNode(element)) return;
+
+            instances.push(...this.createModuleInstances(module, [element]));
+        }, this.initBudget);
+
+        return whenDone(created, () => this.initModuleInstances(instances));
+    }
+
+    /**
+     * Creates module instances for elements that don't have one yet, or schedules them according to the
+     * module's init strategy. Modules bound to a media query are only created while the query matches.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement[]} elements - The module elements.
+     * @returns {Module[]} The created module instances, which still need to be initialized.
+     * @private
+     */
+    private createModuleInstances(module: ModuleClass, elements: HTMLElement[]): Module[]
+    {
+        const name = module.getName();
+        const instances: Module[] = [];
+
+        for (const element of elements) {
+            if (this.mediaWatchers.get(element)?.[name]) continue;
+
+            const media = module.getMedia(element, this.attributes);
+
+            if (media) {
+                this.watchModuleMedia(module, element, media, instances);
+                continue;
+            }
+
+            const instance = this.createOrScheduleModuleInstance(module, element);
+            instance && instances.push(instance);
+        }
+
+        return instances;
+    }
+
+    /**
+     * Creates a module instance if the element doesn't have one yet, or schedules it according to the module's
+     * init strategy.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement} element - The module element.
+     * @returns {null | Module} The created module instance, which still needs to be initialized, or null if it
+     * already exists, was scheduled or failed.
+     * @private
+     */
+    private createOrScheduleModuleInstance(module: ModuleClass, element: HTMLElement): null | Module
+    {
+        const name = module.getName();
+
+        if (this.moduleInstances.get(element)?.[name]) return null;
+        if (this.pendingModuleInstances.get(element)?.[name]) return null;
+
+        const strategy = module.getInitStrategy(element, this.attributes);
+
+        if (strategy === "immediate") {
+            return this.createModuleInstance(module, element);
+        }
+
+        const cancel = this.scheduleModuleInstance(module, element, strategy);
+
+        cancel && this.pendingModuleInstances.set(element, {
+            ...this.pendingModuleInstances.get(element) || {},
+            [name]: cancel,
+        });
+
+        return null;
+    }
+
+    /**
+     * Creates and initializes a module whenever its media query starts matching and destroys it when it stops.
+     * The module keeps its instance across matches, so setup done in the constructor is kept.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement} element - The module element.
+     * @param {string} query - The media query.
+     * @param {Module[]} instances - The instances created by this `init()`, which the instance is added to
+     * if the query matches right away.
+     * @private
+     */
+    private watchModuleMedia(module: ModuleClass, element: HTMLElement, query: string, instances: Module[]): void
+    {
+        const name = module.getName();
+        let watching = false;
+
+        const stop = watchMediaQuery(query, (matches) => {
+            if (!matches) {
+                this.destroyModuleInstance(element, name);
+                return;
+            }
+
+            const instance = this.createOrScheduleModuleInstance(module, element);
+            if (!instance) return;
+
+            watching ? this.initModuleInstances([instance]) : instances.push(instance);
+        });
+
+        watching = true;
+
+        this.mediaWatchers.set(element, {
+            ...this.mediaWatchers.get(element) || {},
+            [name]: stop,
+        });
+    }
+
+    /**
+     * Waits for the init strategy to trigger and creates the module instance afterwards.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement} element - The module element.
+     * @param {InitStrategy} strategy - The init strategy of the module element.
+     * @returns {null | (() => void)} A function that cancels the pending init, or null if the module was created right away.
+     * @private
+     */
+    private scheduleModuleInstance(module: ModuleClass, element: HTMLElement, strategy: InitStrategy): null | (() => void)
+    {
+        let created = false;
+        const create = () => {
+            created = true;
+            this.unregisterPendingModuleInstance(element, module.getName());
+
+            const instance = this.createModuleInstance(module, element);
+            instance && this.initModuleInstances([instance]);
+        };
+
+        let cancel: () => void;
+
+        if (strategy === "visible") {
+            cancel = onVisible(element, create, module.initRootMargin);
+        } else if (strategy === "idle") {
+            cancel = onIdle(create, module.initIdleTimeout);
+        } else if (strategy === "interaction") {
+            cancel = onInteraction(element, create);
+        } else if (strategy.startsWith("media:")) {
+            cancel = onMediaMatch(strategy.slice("media:".length), create);
+        } else {
+            console.warn(`Unknown init strategy "${strategy}" of module "${module.getName()}".`, element);
+            create();
+
+            return null;
+        }
+
+        return created ? null : cancel;
+    }
+
+    /**
+     * Creates a module instance through the `beforeCreate` hooks of the plugins and registers it.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement} element - The module element.
+     * @returns {null | Module} The module instance, or null if the constructor failed or a plugin prevented it.
+     * @private
+     */
+    private createModuleInstance(module: ModuleClass, element: HTMLElement): null | Module
+    {
+        const name = module.getName();
+        const context: PluginContext = { app: this, module, name, element, instance: null };
+        let moduleInstance: null | Module;
+
+        element.removeAttribute(getModuleMarkerAttributeName(this.attributes, name, "error"));
+
+        try {
+            moduleInstance = runCreateHooks(this.plugins, context, () => module.create(element, false, this.instanceCache));
+        } catch (error) {
+            this.reportError(error, { module: null, name, element, phase: "create" });
+            this.scheduleRetry(module, element);
+
+            return null;
+        }
+
+        if (!moduleInstance) return null;
+
+        moduleInstance.app = this;
+
+        this.moduleInstances.set(element, {
+            ...this.moduleInstances.get(element) || {},
+            [module.getName()]: moduleInstance,
+        });
+
+        return moduleInstance;
+    }
+
+    /**
+     * Initializes module instances in the configured order, in chunks of `initBudget`, and calls their `ready()`
+     * hooks afterwards, children before parents.
+     *
+     * @param {Module[]} instances - The module instances.
+     * @returns {MaybePromise} A promise if any lifecycle hook is asynchronous, otherwise undefined.
+     * @private
+     */
+    private initModuleInstances(instances: Module[]): MaybePromise
+    {
+        const sorted = instances.sort((a, b) => compareDocumentPosition(a.el, b.el));
+        const order = this.initOrder === "child-first" ? [...sorted].reverse() : sorted;
+        const results: MaybePromise[] = [];
+
+        const initialized = runInChunks(order, (instance) => {
+            // Modules destroyed while waiting for the next chunk aren't initialized anymore.
+            this.isRegistered(instance) && results.push(this.runModuleLifecycle(instance, "init"));
+        }, this.initBudget);
+
+        return whenDone(whenDone(initialized, () => whenAll(results)), () => {
+            return this.runChildrenFirst(sorted.filter((instance) => this.isRegistered(instance)), "ready");
+        });
+    }
+
+    /**
+     * Runs a lifecycle phase of a module instance and routes errors to `reportError()`, so a failing module
+     * doesn't affect other modules. A module that failed to initialize is destroyed to release what it has set up
+     * so far, and retried according to the retry policy.
+     *
+     * @param {Module} instance - The module instance.
+     * @param {ModuleLifecyclePhase} phase - The lifecycle phase to run.
+     * @param {MaybePromise} [after] - An additional promise to wait for before the phase starts.
+     * @returns {MaybePromise} A promise that never rejects if the phase is asynchronous, otherwise undefined.
+     * @private
+     */
+    private runModuleLifecycle(instance: Module, phase: ModuleLifecyclePhase, after?: MaybePromise): MaybePromise
+    {
+        const onError = (error: unknown) => {
+            this.reportError(error, { module: instance, name: instance.name, element: instance.el, phase });
+
+            if (phase !== "init") return;
+
+            this.unregisterModuleInstance(instance.el, instance);
+            this.runModuleLifecycle(instance, "destroy");
+            this.scheduleRetry(instance.constructor as ModuleClass, instance.el);
+        };
+
+        try {
+            const result = instance.runLifecycle(phase, after, this.getLifecycleWrapper(instance, phase));
+
+            return isPromise(result) ? result.catch(onError) : undefined;
+        } catch (error) {
+            onError(error);
+        }
+    }
+
+    /**
+     * Returns the function running the `afterInit` or `beforeDestroy` hooks of the plugins around a lifecycle phase.
+     *
+     * @param {Module} instance - The module instance.
+     * @param {ModuleLifecyclePhase} phase - The lifecycle phase.
+     * @returns {undefined | ((run: () => MaybePromise) => MaybePromise)} The wrapper, or undefined if no plugin
+     * hooks into the phase.
+     * @private
+     */
+    private getLifecycleWrapper(
+        instance: Module,
+        phase: ModuleLifecyclePhase
+    ): undefined | ((run: () => MaybePromise) => MaybePromise)
+    {
+        const hook = phase === "init" ? "afterInit" : phase === "destroy" ? "beforeDestroy" : null;
+
+        if (!hook || !this.plugins.some((plugin) => plugin[hook])) return undefined;
+
+        const context: PluginContext = {
+            app: this,
+            module: instance.constructor as ModuleClass,
+            name: instance.name,
+            element: instance.el,
+            instance,
+        };
+
+        return (run) => runLifecycleHooks(this.plugins, hook, context, run);
+    }
+
+    /**
+     * Retries to create and initialize a module that failed to do so, if the retry policy allows another attempt.
+     *
+     * @param {ModuleClass} module - The module class.
+     * @param {HTMLElement} element - The module element.
+     * @private
+     */
+    private scheduleRetry(module: ModuleClass, element: HTMLElement): void
+    {
+        if (!this.retry) return;
+
+        const name = module.getName();
+        const attempts = this.retryAttempts.get(element) || {};
+
+        if ((attempts[name] || 0) >= this.retry.attempts) return;
+
+        this.retryAttempts.set(element, { ...attempts, [name]: (attempts[name] || 0) + 1 });
+
+        setTimeout(() => {
+            if (!element.isConnected) return;
+
+            const media = module.getMedia(element, this.attributes);
+            if (media && !matchMedia(media).matches) return;
+
+            const instance = this.createOrScheduleModuleInstance(module, element);
+            instance && this.initModuleInstances([instance]);
+        }, this.retry.delay || 0);
+    }
+
+    /**
+     * Destroys and forgets the module instances inside the root of a nested app created after this app was
+     * initialized, so the elements are only initialized by the nested app.
+     *
+     * @param {HTMLElement} root - The root of the nested app.
+     * @private
+     */
+    private releaseRoot(root: HTMLElement): void
+    {
+        for (const element of this.moduleInstances.keys()) {
+            root.contains(element) && this.instanceCache.delete(element);
+        }
+
+        this.destroy(root);
+    }
+
+    /**
+     * Checks if a node belongs to the app, i.e. the closest app root containing it is the root of this app.
+     * Apps sharing a root all own its nodes.
+     *
+     * @param {Node} node - The node.
+     * @returns {boolean} True if the node belongs to the app.
+     * @private
+     */
+    private ownsNode(node: Node): boolean
+    {
+        return getClosestApps(node).includes(this);
+    }
+
+    /**
+     * Checks if a module instance is registered in the app.
+     *
+     * @param {Module} instance - The module instance.
+     * @returns {boolean} True if the instance is registered.
+     * @private
+     */
+    private isRegistered(instance: Module): boolean
+    {
+        return this.moduleInstances.get(instance.el)?.[instance.name] === instance;
+    }
+
+    /**
+     * Runs a lifecycle phase for each module instance, starting with the innermost ones.
+     * The phase of a module only runs once the phases of all modules nested in it have finished,
+     * modules that aren't nested in each other don't wait for each other.
+     * All phases are queued immediately, so a following phase of the same instance can't overtake them.
+     *
+     * @param {Module[]} instances - The module instances.
+     * @param {ModuleLifecyclePhase} phase - The lifecycle phase to run.
+     * @returns {MaybePromise} A promise if any phase is asynchronous, otherwise undefined.
+     * @private
+     */
+    private runChildrenFirst(instances: Module[], phase: ModuleLifecyclePhase): MaybePromise
+    {
+        const instancesByElement = new Map<HTMLElement, Module[]>();
+
+        for (const instance of instances) {
+            instancesByElement.set(instance.el, [...instancesByElement.get(instance.el) || [], instance]);
+        }
+
+        const elements = Array.from(instancesByElement.keys()).sort((a, b) => compareDocumentPosition(b, a));
+        const nestedResults = new Map<HTMLElement, MaybePromise[]>();
+        const results: MaybePromise[] = [];
+
+        for (const element of elements) {
+            const nested = whenAll(nestedResults.get(element) || []);
+            const result = whenAll(instancesByElement.get(element)!.map((instance) => {
+                return this.runModuleLifecycle(instance, phase, nested);
+            }));
+
+            let parent = element.parentElement;
+
+            while (parent && !instancesByElement.has(parent)) {
+                parent = parent.parentElement;
+            }
+
+            if (parent) {
+                nestedResults.set(parent, [...nestedResults.get(parent) || [], result]);
+            } else {
+                results.push(result);
+            }
+        }
+
+        return whenAll(results);
+    }
+
+    /**
+     * Imports a lazy loaded module. Concurrent calls share the same pending import,
+     * failed imports are forgotten so they can be retried on the next `init()`.
+     *
+     * @param {ModuleLoader} loader - The module loader.
+     * @returns {Promise<ModuleClass>} The loaded module class.
+     * @private
+     */
+    private loadModule(loader: ModuleLoader): Promise<ModuleClass>
+    {
+        const name = this.getModuleName(loader);
+        let load = this.moduleLoads.get(name);
+
+        if (!load) {
+            load = loader.load().then((result) => this.resolveModuleClass(result, name));
+            load.catch(() => this.moduleLoads.delete(name));
+
+            this.moduleLoads.set(name, load);
+        }
+
+        return load;
+    }
+
+    /**
+     * Picks the module class out of the result of a module loader.
+     * A module namespace is searched for the default export first, then for an export matching the module name
+     * and finally for any exported module class. The module class must be named like the loader, otherwise its
+     * instances would be registered under a different name than the loader.
+     *
+     * @param {ModuleClass | Record<string, unknown>} result - The result of the module loader.
+     * @param {string} name - The name of the module.
+     * @returns {ModuleClass} The module class.
+     * @throws {Error} If the result doesn't contain a module class or the module class has another name.
+     * @private
+     */
+    private resolveModuleClass(result: ModuleClass | Record<string, unknown>, name: string): ModuleClass
+    {
+        const isModuleClass = (value: unknown): value is ModuleClass => {
+            return typeof value === "function" && value.prototype instanceof Module;
+        };
+
+        const exports = isModuleClass(result) ? [result] : Object.values(result).filter(isModuleClass);
+        const defaultExport = (result as Record<string, unknown>).default;
+        const module = isModuleClass(defaultExport)
+            ? defaultExport
+            : exports.find((module) => module.getName() === name) || exports[0];
+
+        if (!module) {
+            throw new Error(`The loader of module "${name}" did not resolve to a module class.`);
+        }
+
+        if (module.getName() !== name) {
+            throw new Error(`The loader of module "${name}" resolved to module "${module.getName()}".`);
+        }
+
+        return module;
+    }
+
+    /**
+     * Returns the name of a module class or module loader in kebab-case.
+     *
+     * @param {ModuleDefinition} definition - The module class or module loader.
+     * @returns {string} The name of the module.
+     * @private
+     */
+    private getModuleName(definition: ModuleDefinition): string
+    {
+        if (!this.isModuleLoader(definition)) {
+            return definition.getName();
+        }
+
+        return isFirstCharUppercase(definition.name) ? pascalToKebab(definition.name) : definition.name;
+    }
+
+    /**
+     * Returns the name and the aliases of a module definition.
+     *
+     * @param {ModuleDefinition} definition - The module class or module loader.
+     * @returns {string[]} The names of the module.
+     * @private
+     */
+    private getModuleNames(definition: ModuleDefinition): string[]
+    {
+        if (!this.isModuleLoader(definition)) {
+            return definition.getNames();
+        }
+
+        return [this.getModuleName(definition), ...definition.aliases || []];
+    }
+
+    /**
+     * Validates a name of a module definition before it is registered.
+     *
+     * @param {string} name - The name or alias.
+     * @param {ModuleDefinition} definition - The module class or module loader.
+     * @param {boolean} duplicate - Whether the definition uses the name more than once.
+     * @throws {Error} If the name isn't kebab-case or is already used.
+     * @private
+     */
+    private validateModuleName(name: string, definition: ModuleDefinition, duplicate: boolean): void
+    {
+        if (!/^[a-z][a-z0-9]*(-[a-z0-9]+)*$/.test(name)) {
+            throw new Error(`Module name "${name}" is invalid, use lowercase letters, digits and dashes, e.g. "mega-menu".`);
+        }
+
+        const registered = this.moduleIndex.get(name);
+
+        if (duplicate || (registered && registered !== definition)) {
+            throw new Error(`Module name "${name}" is already used by another module, set a unique static name or alias.`);
+        }
+
+        if (name.length <= 2) {
+            console.warn(`Module name "${name}" looks minified, set a static name on the class to keep it stable in minified builds.`);
+        }
+    }
+
+    /**
+     * Checks if a module definition is a module loader.
+     *
+     * @param {ModuleDefinition} definition - The module class or module loader.
+     * @returns {boolean} True if the definition is a module loader.
+     * @private
+     */
+    private isModuleLoader(definition: ModuleDefinition): definition is ModuleLoader
+    {
+        return typeof definition !== "function";
+    }
+
+    /**
+     * Processes the mutations collected during the last frame.
+     * Removed nodes are handled first, so nodes that were moved within the same frame keep their instances.
+     *
+     * @private
+     */
+    private flushMutations(): void
+    {
+        const mutations = this.pendingMutations;
+        const removedNodes = new Set<HTMLElement>();
+        const addedNodes = new Set<HTMLElement>();
+
+        this.pendingMutations = [];
+        this.mutationFrame = null;
+
+        for (const mutation of mutations) {
+            if (mutation.type === "attributes" && this.attributes.classPrefix !== null) {
+                const element = mutation.target as HTMLElement;
+                const names = getElementModuleNames(this.attributes, element)
+                    .map((alias) => this.moduleIndex.get(alias))
+                    .filter((definition): definition is ModuleDefinition => !!definition)
+                    .map((definition) => this.getModuleName(definition));
+
+                // Modules whose class was removed are destroyed, the ones whose class was added are created.
+                const existing = new Set([
+                    ...Object.keys(this.moduleInstances.get(element) || {}),
+                    ...Object.keys(this.pendingModuleInstances.get(element) || {}),
+                    ...Object.keys(this.mediaWatchers.get(element) || {}),
+                ]);
+
+                for (const name of existing) {
+                    if (names.includes(name)) continue;
+
+                    this.unwatchModuleMedia(element, name);
+                    this.destroyModuleInstance(element, name);
+                }
+
+                names.length && addedNodes.add(element);
+
+                continue;
+            }
+
+            if (mutation.type === "attributes") {
+                const element = mutation.target as HTMLElement;
+                const alias = mutation.attributeName!.slice(this.attributes.modulePrefix.length);
+                const definition = this.moduleIndex.get(alias);
+                const name = definition ? this.getModuleName(definition) : alias;
+
+                // A changed attribute may hold another media query, so modules bound to one are created again.
+                if (this.unwatchModuleMedia(element, name) || !element.hasAttribute(mutation.attributeName!)) {
+                    this.destroyModuleInstance(element, name);
+                }
+
+                element.hasAttribute(mutation.attributeName!) && addedNodes.add(element);
+
+                continue;
+            }
+
+            mutation.removedNodes.forEach((node) => node instanceof HTMLElement && removedNodes.add(node));
+            mutation.addedNodes.forEach((node) => node instanceof HTMLElement && addedNodes.add(node));
+        }
+
+        for (const node of removedNodes) {
+            if (!node.isConnected) {
+                this.destroy(node);
+            }
+        }
+
+        for (const node of addedNodes) {
+            if (node.isConnected) {
+                this.init(node);
+            }
+        }
+    }
+
+    /**
+     * Destroys a single module instance on the given element.
+     *
+     * @param {HTMLElement} element - The element the module instance is associated with.
+     * @param {string} name - The name of the module.
+     * @private
+     */
+    private destroyModuleInstance(element: HTMLElement, name: string): void
+    {
+        const cancel = this.pendingModuleInstances.get(element)?.[name];
+        if (cancel) {
+            cancel();
+            this.unregisterPendingModuleInstance(element, name);
+        }
+
+        const instance = this.moduleInstances.get(element)?.[name];
+        if (!instance) return;
+
+        this.unregisterModuleInstance(element, instance);
+        this.runModuleLifecycle(instance, "destroy");
+    }
+
+
+
+    /**
+     * Cancels the pending instances and media watchers of a module and unregisters its instances.
+     *
+     * @param {string} name - The name of the module.
+     * @returns {{elements: Set<HTMLElement>, instances: Module[]}} The elements of the module and its unregistered
+     * instances, which still need to be destroyed.
+     * @private
+     */
+    private releaseModule(name: string): { elements: Set<HTMLElement>, instances: Module[] }
+    {
+        const elements = new Set<HTMLElement>();
+        const instances: Module[] = [];
+
+        for (const element of Array.from(this.pendingModuleInstances.keys())) {
+            const cancel = this.pendingModuleInstances.get(element)?.[name];
+            if (!cancel) continue;
+
+            cancel();
+            this.unregisterPendingModuleInstance(element, name);
+            elements.add(element);
+        }
+
+        for (const element of Array.from(this.mediaWatchers.keys())) {
+            this.unwatchModuleMedia(element, name) && elements.add(element);
+        }
+
+        for (const [element, elementInstances] of Array.from(this.moduleInstances.entries())) {
+            const instance = elementInstances[name];
+            if (!instance) continue;
+
+            this.unregisterModuleInstance(element, instance);
+            instances.push(instance);
+            elements.add(element);
+        }
+
+        return { elements, instances };
+    }
+
+    private unwatchModuleMedia(element: HTMLElement, name: string): boolean
+    {
+        const watchers = this.mediaWatchers.get(element);
+        const stop = watchers?.[name];
+        if (!watchers || !stop) return false;
+
+        stop();
+        delete watchers[name];
+
+        if (!Object.keys(watchers).length) {
+            this.mediaWatchers.delete(element);
+        }
+
+        return true;
+    }
+
+    private unregisterPendingModuleInstance(element: HTMLElement, name: string): void
+    {
+        const pending = this.pendingModuleInstances.get(element);
+        if (!pending) return;
+
+        delete pending[name];
+
+        if (!Object.keys(pending).length) {
+            this.pendingModuleInstances.delete(element);
+        }
+    }
 
     private unregisterModuleInstance(element: HTMLElement, instance?: Module): void
     {
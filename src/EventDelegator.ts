@@ -0,0 +1,225 @@
+type DelegatedEventListener = {
+    listener: EventListener,
+    capture: boolean,
+}
+
+
+
+/**
+ * Non-bubbling event types and the bubbling event types they are emulated with.
+ */
+const emulatedEvents: Record<string, string> = {
+    focus: "focusin",
+    blur: "focusout",
+    mouseenter: "mouseover",
+    mouseleave: "mouseout",
+    pointerenter: "pointerover",
+    pointerleave: "pointerout",
+};
+
+
+
+/**
+ * Delegates event listeners of elements to a single listener per event type on a root node.
+ * Events are dispatched to the listeners of the elements in the event's composed path, from the target outwards,
+ * with `event.currentTarget` set to the element the listener was added to. Non-bubbling events are emulated with
+ * their bubbling counterparts, e.g. `focus` with `focusin` and `mouseenter` with `mouseover`. Other non-bubbling
+ * events, e.g. `scroll`, `load` or media events, are caught in the capture phase and, like native non-bubbling
+ * events, dispatched to the listeners of their target and to capturing listeners only.
+ *
+ * @class
+ */
+export class EventDelegator {
+
+    /**
+     * The node the root listeners are added to.
+     * @private
+     * @readonly
+     */
+    private readonly root: Node;
+
+    /**
+     * The delegated listeners, keyed by event type and element.
+     * @private
+     * @readonly
+     */
+    private readonly listeners: Map<string, Map<EventTarget, DelegatedEventListener[]>>;
+
+    /**
+     * The capturing and bubbling listeners added to the root node, keyed by the DOM event type.
+     * @private
+     * @readonly
+     */
+    private readonly rootListeners: Map<string, { capture: EventListener, bubble: EventListener }>;
+
+
+    /**
+     * Creates an instance of the EventDelegator class.
+     *
+     * @constructor
+     * @param {Node} root - The node the root listeners are added to.
+     */
+    constructor(root: Node)
+    {
+        this.root = root;
+        this.listeners = new Map();
+        this.rootListeners = new Map();
+    }
+
+
+
+    /**
+     * Adds a delegated event listener to an element.
+     *
+     * @param {EventTarget} element - The element the listener belongs to.
+     * @param {string} type - The event type.
+     * @param {EventListener} listener - The event listener.
+     * @param {boolean} capture - Whether the listener also receives non-bubbling events of descendants, as a capturing
+     * listener would.
+     * @returns {() => void} A function that removes the listener.
+     */
+    add(element: EventTarget, type: string, listener: EventListener, capture: boolean): () => void
+    {
+        const entry: DelegatedEventListener = { listener, capture };
+        const listeners = this.listeners.get(type) || new Map<EventTarget, DelegatedEventListener[]>();
+
+        listeners.set(element, [...listeners.get(element) || [], entry]);
+        this.listeners.set(type, listeners);
+        this.listen(emulatedEvents[type] || type);
+
+        return () => {
+            const entries = listeners.get(element)?.filter((item) => item !== entry);
+
+            if (entries?.length) {
+                listeners.set(element, entries);
+            } else {
+                listeners.delete(element);
+            }
+        };
+    }
+
+    /**
+     * Returns the delegated listeners of an element.
+     *
+     * @param {EventTarget} element - The element the listeners belong to.
+     * @returns {{type: string, listener: EventListener, capture: boolean}[]} The event types, listeners and capture flags.
+     */
+    getListeners(element: EventTarget): { type: string, listener: EventListener, capture: boolean }[]
+    {
+        return Array.from(this.listeners, ([type, listeners]) => {
+            return (listeners.get(element) || []).map(({ listener, capture }) => ({ type, listener, capture }));
+        }).flat();
+    }
+
+    /**
+     * Removes all root listeners and delegated listeners.
+     */
+    disconnect(): void
+    {
+        this.rootListeners.forEach(({ capture, bubble }, type) => {
+            this.root.removeEventListener(type, capture, true);
+            this.root.removeEventListener(type, bubble);
+        });
+        this.rootListeners.clear();
+        this.listeners.clear();
+    }
+
+
+
+    /**
+     * Adds the root listeners for a DOM event type, if they weren't added yet. Bubbling events are dispatched in the
+     * bubble phase, so listeners of elements run after the ones added directly to descendants, non-bubbling events
+     * in the capture phase, as they never reach the bubble phase of the root.
+     *
+     * @param {string} type - The DOM event type.
+     * @private
+     */
+    private listen(type: string): void
+    {
+        if (this.rootListeners.has(type)) return;
+
+        const listeners = {
+            capture: (event: Event) => !event.bubbles && this.dispatch(event),
+            bubble: (event: Event) => event.bubbles && this.dispatch(event),
+        };
+
+        this.root.addEventListener(type, listeners.capture, true);
+        this.root.addEventListener(type, listeners.bubble);
+        this.rootListeners.set(type, listeners);
+    }
+
+    /**
+     * Dispatches an event caught by a root listener to the delegated listeners.
+     *
+     * @param {Event} event - The event.
+     * @private
+     */
+    private dispatch(event: Event): void
+    {
+        const path = event.composedPath().filter((target): target is Element => target instanceof Element);
+        const type = event.type;
+
+        this.dispatchToPath(event, type, path, (element, { capture }) => event.bubbles || capture || element === path[0]);
+
+        for (const [emulatedType, counterpart] of Object.entries(emulatedEvents)) {
+            if (counterpart !== type || !this.listeners.get(emulatedType)?.size) continue;
+
+            if (emulatedType === "focus" || emulatedType === "blur") {
+                this.dispatchToPath(event, emulatedType, path, (element, { capture }) => capture || element === path[0]);
+                continue;
+            }
+
+            // The elements entered or left are the ones in the path that don't contain the related target.
+            const relatedTarget = (event as MouseEvent).relatedTarget;
+            const affected = path.filter((element) => !(relatedTarget instanceof Node && element.contains(relatedTarget)));
+
+            for (const target of affected) {
+                this.dispatchToPath(event, emulatedType, path, (element, { capture }) => {
+                    return element === target || (capture && element.contains(target));
+                }, target);
+            }
+        }
+    }
+
+    /**
+     * Calls the listeners of the given type of all elements in the path, unless propagation is stopped.
+     *
+     * @param {Event} event - The event.
+     * @param {string} type - The event type the listeners were added for.
+     * @param {Element[]} path - The elements in the composed path, from the target outwards.
+     * @param {(element: Element, entry: DelegatedEventListener) => boolean} filter - Decides if a listener is called.
+     * @param {Element} [target] - The target to expose on the event, if different from the original one.
+     * @private
+     */
+    private dispatchToPath(
+        event: Event,
+        type: string,
+        path: Element[],
+        filter: (element: Element, entry: DelegatedEventListener) => boolean,
+        target?: Element
+    ): void
+    {
+        const listeners = this.listeners.get(type);
+        if (!listeners?.size) return;
+
+        for (const element of path) {
+            if (event.cancelBubble) return;
+
+            for (const entry of listeners.get(element) || []) {
+                if (!filter(element, entry)) continue;
+
+                Object.defineProperty(event, "currentTarget", { value: element, configurable: true });
+                type !== event.type && Object.defineProperty(event, "type", { value: type, configurable: true });
+                target && Object.defineProperty(event, "target", { value: target, configurable: true });
+
+                try {
+                    entry.listener(event);
+                } finally {
+                    delete (event as any).currentTarget;
+                    delete (event as any).type;
+                    delete (event as any).target;
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,158 @@
+export type EventMap = Record<string, any>;
+export type EventType<Events extends EventMap> = (keyof Events & string) | "*" | `${string}:*`;
+export type EventPayload<Events extends EventMap, K> = K extends keyof Events ? Events[K] : Events[keyof Events];
+export type EventHandler<P = any> = (payload: P, type: string) => void;
+
+type EventSubscription = {
+    handler: EventHandler,
+    once: boolean,
+}
+
+
+
+/**
+ * A simple event emitter used as the application wide event bus.
+ * Besides exact event types, handlers can listen to all events with `*` or to a namespace with e.g. `cart:*`,
+ * which receives `cart:add` as well as `cart:item:remove`.
+ *
+ * @template Events - A map of event types to their payloads.
+ * @class
+ */
+export class EventEmitter<Events extends EventMap = EventMap> {
+
+    /**
+     * The subscribed handlers, keyed by event type.
+     * @private
+     * @readonly
+     */
+    private readonly subscriptions: Map<string, EventSubscription[]>;
+
+
+    /**
+     * Creates an instance of the EventEmitter class.
+     *
+     * @constructor
+     */
+    constructor()
+    {
+        this.subscriptions = new Map();
+    }
+
+
+
+    /**
+     * Subscribes a handler to an event type.
+     *
+     * @param {string} type - The event type, `*` for all events or `<namespace>:*` for all events of a namespace.
+     * @param {EventHandler} handler - The function called with the payload and the event type.
+     * @returns {() => void} A function that unsubscribes the handler.
+     */
+    on<K extends EventType<Events>>(type: K, handler: EventHandler<EventPayload<Events, K>>): () => void
+    {
+        return this.subscribe(type, handler, false);
+    }
+
+    /**
+     * Subscribes a handler to an event type that is removed after it was called once.
+     *
+     * @param {string} type - The event type, `*` for all events or `<namespace>:*` for all events of a namespace.
+     * @param {EventHandler} handler - The function called with the payload and the event type.
+     * @returns {() => void} A function that unsubscribes the handler.
+     */
+    once<K extends EventType<Events>>(type: K, handler: EventHandler<EventPayload<Events, K>>): () => void
+    {
+        return this.subscribe(type, handler, true);
+    }
+
+    /**
+     * Unsubscribes a handler from an event type. Removes all handlers of the type if no handler is given.
+     *
+     * @param {string} type - The event type the handler was subscribed to.
+     * @param {EventHandler} [handler] - The handler to remove.
+     */
+    off<K extends EventType<Events>>(type: K, handler?: EventHandler<EventPayload<Events, K>>): void
+    {
+        if (!handler) {
+            this.subscriptions.delete(type);
+            return;
+        }
+
+        this.removeSubscriptions(type, (subscription) => subscription.handler === handler);
+    }
+
+    /**
+     * Calls all handlers subscribed to the event type, its namespaces and `*`.
+     *
+     * @param {string} type - The event type.
+     * @param {*} [payload] - The payload passed to the handlers.
+     */
+    emit<K extends keyof Events & string>(type: K, payload?: Events[K]): void
+    {
+        const types = [type, ...this.getNamespaceTypes(type), "*"];
+
+        for (const subscribedType of types) {
+            const subscriptions = this.subscriptions.get(subscribedType);
+            if (!subscriptions) continue;
+
+            for (const subscription of [...subscriptions]) {
+                if (subscription.once) {
+                    this.removeSubscriptions(subscribedType, (item) => item === subscription);
+                }
+
+                subscription.handler(payload, type);
+            }
+        }
+    }
+
+    /**
+     * Removes all handlers.
+     */
+    clear(): void
+    {
+        this.subscriptions.clear();
+    }
+
+
+
+    private subscribe(type: string, handler: EventHandler, once: boolean): () => void
+    {
+        const subscription: EventSubscription = { handler, once };
+
+        this.subscriptions.set(type, [...this.subscriptions.get(type) || [], subscription]);
+
+        // Only this subscription is removed, other subscriptions of the same handler are kept.
+        return () => this.removeSubscriptions(type, (item) => item === subscription);
+    }
+
+    /**
+     * Removes the subscriptions of an event type matching a predicate.
+     *
+     * @param {string} type - The event type.
+     * @param {(subscription: EventSubscription) => boolean} predicate - Returns true for the subscriptions to remove.
+     * @private
+     */
+    private removeSubscriptions(type: string, predicate: (subscription: EventSubscription) => boolean): void
+    {
+        const subscriptions = this.subscriptions.get(type)?.filter((subscription) => !predicate(subscription));
+
+        if (subscriptions?.length) {
+            this.subscriptions.set(type, subscriptions);
+        } else {
+            this.subscriptions.delete(type);
+        }
+    }
+
+    /**
+     * Returns the namespace wildcards matching an event type, e.g. `cart:*` and `cart:item:*` for `cart:item:add`.
+     *
+     * @param {string} type - The event type.
+     * @returns {string[]} The namespace wildcards.
+     * @private
+     */
+    private getNamespaceTypes(type: string): string[]
+    {
+        const segments = type.split(":");
+
+        return segments.slice(0, -1).map((segment, index) => `${segments.slice(0, index + 1).join(":")}:*`);
+    }
+}
@@ -1,161 +1,1025 @@
-import {bind, findParent, getSelectorFilteredEventListener, isFirstCharUppercase, pascalToKebab} from "./utils";
+import type {App, ModuleClass} from "./App";
+import {
+    AttributeConvention,
+    defaultAttributeConvention,
+    escapeAttributeName,
+    getModuleElementSelector,
+    getModuleMarkerAttributeName,
+} from "./attributes";
+import {EventEmitter, EventHandler, EventMap, EventPayload, EventType} from "./EventEmitter";
+import {ModuleOptions, OptionDefinition, OptionsSchema, parseOption, serializeOption} from "./options";
+import {ModuleRefs, RefDefinition, RefsSchema, resolveRef} from "./refs";
+import type {ServiceKey} from "./services";
+import {
+    applyEventModifiers,
+    bind,
+    findParent,
+    getSelectorFilteredEventListener,
+    isFirstCharUppercase,
+    isPromise,
+    MaybePromise,
+    parseEventBindings,
+    pascalToKebab,
+    whenDone,
+} from "./utils";
 
 
 
 export type ModuleElements = Record<string, (HTMLElement | HTMLElement[])>;
+export type ModuleEventMap = Record<string, string | Record<string, string>>;
+export type ModuleState = "idle" | "initializing" | "ready" | "destroying" | "destroyed";
+export type ModuleLifecyclePhase = "init" | "ready" | "destroy";
+export type InitStrategy = "immediate" | "visible" | "idle" | "interaction" | `media:${string}`;
+export type ModuleInstanceCache = WeakMap<HTMLElement, Record<string, Module<any, any, any>>>;
+
+
+
+export type ModuleMethod<M> = {
+    [K in keyof M]: M[K] extends (...args: any[]) => any ? K : never
+}[keyof M] & string;
+
+type ModuleMethodFunction<M, K extends keyof M> = Extract<M[K], (...args: any[]) => any>;
+
+const nonBubblingEvents = ["focus", "blur", "mouseenter", "mouseleave", "pointerenter", "pointerleave", "load", "error"];
+
+/**
+ * Matches values of module attributes that are media queries rather than ids, e.g. "(min-width: 1024px)" or "print".
+ * A media type only counts if it stands on its own, so ids like "screen-1" aren't taken for queries.
+ */
+const mediaQueryPattern = /\(\s*[a-z-]+\s*(:[^)]*)?\)|^\s*((only|not)\s+)?(all|screen|print)(\s|$)/i;
+
+/**
+ * The instances of modules created outside of an app, keyed by element and module name.
+ */
+const defaultInstanceCache: ModuleInstanceCache = new WeakMap();
+
+type ModuleEventListener = {
+    target: EventTarget,
+    type: string,
+    namespaces: string[],
+    listener: EventListenerOrEventListenerObject,
+    wrappedListener: EventListener,
+    capture: boolean,
+    remove: () => void,
+}
+
+type ModuleEventSubscription = {
+    type: string,
+    handler: EventHandler,
+    unsubscribe: () => void,
+}
 
 
 
 /**
  * Base class for creating modular components with event handling.
+ *
+ * @template Events - A map of app event types to their payloads, used by `on()`, `once()`, `off()` and `emit()`.
+ * @template Options - The options schema of the module, used to type `this.options`.
+ * @template Refs - The refs schema of the module, used to type `this.refs`.
  */
-export class Module {
+export class Module<
+    Events extends EventMap = EventMap,
+    Options extends OptionsSchema = OptionsSchema,
+    Refs extends RefsSchema = RefsSchema
+> {
 
     static name = "module";
 
+    /**
+     * Alternative names of the module. Elements with a `data-module-<alias>` attribute are associated with the module
+     * as well, e.g. to keep markup with a previous name working.
+     */
+    static aliases: string[] = [];
+
+    /**
+     * When the app creates and initializes the module. Can be overridden per element with `data-module-<name>-init`.
+     * - `immediate`: On `App.init()`.
+     * - `visible`: Once the element intersects with the viewport, extended by `initRootMargin`.
+     * - `idle`: Once the browser is idle, or after `initIdleTimeout` milliseconds at the latest.
+     * - `interaction`: On the first pointerdown, focus or keydown event inside the element.
+     * - `media:<query>`: Once the media query matches, e.g. `media:(min-width: 1024px)`.
+     */
+    static initOn: InitStrategy = "immediate";
+    static initRootMargin = "0px";
+    static initIdleTimeout = 2000;
+
+    /**
+     * A media query the module is bound to, e.g. `(min-width: 1024px)`. The app only creates and initializes the module
+     * while the query matches and destroys it when it stops matching. Can be overridden per element with a media query
+     * as value of the module attribute, e.g. `data-module-mega-menu="(min-width: 1024px)"`.
+     */
+    static media: null | string = null;
+
+    /**
+     * The options schema of the module. Each option is parsed from the `data-<name>-<option>` attribute
+     * into `this.options` before `init()`. Option names in camelCase are read from kebab-case attributes.
+     */
+    static options: OptionsSchema = {};
+
+    /**
+     * The refs schema of the module. Each ref is queried from the `data-<name>="<ref>"` elements into `this.refs`
+     * on `init()`, ref names in camelCase are read from kebab-case values. A ref is declared by its element class,
+     * an array of it for any number of elements or `optional()` for an element that may be missing.
+     *
+     * @example { button: HTMLButtonElement, items: [HTMLLIElement], hint: optional(HTMLElement) }
+     */
+    static refs: RefsSchema = {};
+
+    /**
+     * Whether `this.refs` is updated when elements inside the module's element are added, removed or change their
+     * ref. Arrays are updated in place.
+     */
+    static liveRefs = false;
+
+    /**
+     * Event listeners bound on `init()`, keyed by event type. The value is either the name of a method listening on
+     * the module's element, or an object mapping module scoped selectors to method names, which are delegated from
+     * the module's element and therefore work for elements added after `init()`.
+     *
+     * @example { click: { button: "open", close: "close" }, keydown: "onKey" }
+     */
+    static events: ModuleEventMap = {};
+
+    /**
+     * Event types markup bindings (`data-<name>-on`) are listened for right away, in addition to the types found in
+     * the markup. Types of bindings added after `init()` are listened for once the change is observed, list them
+     * here if events may be dispatched in the same task, e.g. `["click"]`.
+     */
+    static markupEvents: string[] = [];
+
+    /**
+     * Whether scoped queries and delegated listeners include elements inside nested instances of the same module.
+     * By default, e.g. the `data-accordion="header"` elements of an accordion nested in another accordion only belong
+     * to the nested one. Single queries can opt out with their `deep` parameter.
+     */
+    static deepQueries = false;
+
     private readonly _name: string;
-    private readonly _moduleAttribute: string;
-    private readonly _eventListeners: Map<EventTarget, Map<string, EventListenerOrEventListenerObject>>;
+    private _eventListeners: ModuleEventListener[];
+    private _abortController: AbortController;
+    private _eventSubscriptions: ModuleEventSubscription[];
+    private _optionObserver: null | MutationObserver;
+    private _optionChanges: Map<string, string | null>;
+    private _optionFrame: null | number;
+    private _state: ModuleState;
+    private _lifecycle: null | Promise<void>;
+
+    /**
+     * The app the module belongs to. This is set automatically by the app before `init()`.
+     */
+    public app: null | App;
 
     public readonly el: HTMLElement;
     public $elements: null | ModuleElements;
     public autoQueryElements: boolean;
     public autoBind: boolean;
+    public options: ModuleOptions<Options>;
+    public refs: ModuleRefs<Refs>;
 
 
     get name() {
         return this._name;
     }
 
+    /**
+     * The lifecycle state of the module.
+     */
+    get state(): ModuleState {
+        return this._state;
+    }
+
+    /**
+     * A signal that is aborted on `destroy()`. A new signal is available for the next lifecycle afterwards.
+     * Pass it to `fetch()` or `addEventListener()` calls to cancel them together with the module.
+     */
+    get signal(): AbortSignal {
+        return this._abortController.signal;
+    }
+
+    /**
+     * The module instance on the closest ancestor module element within the app, or null.
+     */
+    get parentModule(): null | Module<any, any, any> {
+        return this.app ? this.app.getParentModule(this) : null;
+    }
+
+    /**
+     * The module instances nested directly in this module within the app, in DOM order.
+     */
+    get childModules(): Module<any, any, any>[] {
+        return this.app ? this.app.getChildModules(this) : [];
+    }
+
+
+    /**
+     * Creates an instance of the Module class.
+     *
+     * @param {HTMLElement} el - Options for configuring the module.
+     * @constructor
+     * @note Handle tasks in the constructor that are essential for initializing the module
+     * but should have no adverse effects if the module undergoes updates (destroy and init)
+     * without creating a new instance. The constructor is suitable for code that ensures
+     * the module's basic structure and functionality, facilitating smooth reinitialization when necessary.
+     */
+    constructor(el: HTMLElement)
+    {
+        const name = this.constructor.name;
+        this._name = isFirstCharUppercase(name) ? pascalToKebab(name) : name;
+
+        this._eventListeners = [];
+        this._abortController = new AbortController();
+        this._eventSubscriptions = [];
+        this._optionObserver = null;
+        this._optionChanges = new Map();
+        this._optionFrame = null;
+        this._state = "idle";
+        this._lifecycle = null;
+
+        this.app = null;
+
+        this.el = el;
+        this.$elements = null;
+        this.autoQueryElements = false;
+        this.autoBind = true;
+        this.options = {} as ModuleOptions<Options>;
+        this.refs = {} as ModuleRefs<Refs>;
+    }
+
+
+
+    /**
+     * Hook called by the app before the options are parsed and `init()` is called. May return a promise.
+     */
+    beforeInit(): MaybePromise {
+        // Override in subclasses
+    }
+
+    /**
+     * Initialization method for the module. Override this method in subclasses. May return a promise.
+     *
+     * @note Perform operations such as value extraction and other setup that are intended
+     * to occur once during the initialization phase. Keep in mind that modules may undergo
+     * updates (destroy and init) without necessitating the creation of a new instance.
+     */
+    init(): MaybePromise {
+        this.$elements = this.autoQueryElements ? this.queryModuleElements() : null;
+        this.refs = this.queryRefs();
+
+        this.autoBind && bind(this);
+
+        this.bindDeclarativeEvents();
+        this.observeOptions();
+        this.observeRefs();
+    }
+
+    /**
+     * Hook called by the app after this module and all modules initialized with it are initialized.
+     * Child modules are ready before their parents, which makes it the place to interact with `this.childModules`.
+     * May return a promise.
+     */
+    ready(): MaybePromise {
+        // Override in subclasses
+    }
+
+    /**
+     * Hook called by the app before `destroy()`. May return a promise.
+     */
+    beforeDestroy(): MaybePromise {
+        // Override in subclasses
+    }
+
+    /**
+     * Destructor method for the module. Removes all event listeners, event bus subscriptions and resources
+     * tracked by the module, e.g. timers and observers, by aborting `this.signal`.
+     * Subclasses overriding this method may return a promise and must call `super.destroy()`.
+     */
+    destroy(): MaybePromise
+    {
+        this._abortController.abort();
+        this._abortController = new AbortController();
+        this._eventListeners = [];
+
+        this._eventSubscriptions.forEach((subscription) => subscription.unsubscribe());
+        this._eventSubscriptions = [];
+
+        this._optionObserver?.disconnect();
+        this._optionObserver = null;
+        this._optionChanges.clear();
+
+        if (this._optionFrame !== null) {
+            cancelAnimationFrame(this._optionFrame);
+            this._optionFrame = null;
+        }
+    }
+
+    /**
+     * Runs a lifecycle phase of the module. Phases are queued, so a phase never starts before the previous one
+     * of the same instance has finished. As long as no hook returns a promise, phases run synchronously.
+     * This is called automatically by the app.
+     *
+     * - `init`: Calls `beforeInit()`, parses the options and calls `init()`.
+     * - `ready`: Calls `ready()`.
+     * - `destroy`: Calls `beforeDestroy()` and `destroy()`. Skipped if the module isn't initialized.
+     *
+     * @param {ModuleLifecyclePhase} phase - The lifecycle phase to run.
+     * @param {MaybePromise} [after] - An additional promise to wait for before the phase starts.
+     * @param {(run: () => MaybePromise) => MaybePromise} [wrap] - A function wrapping the phase once it starts, e.g.
+     * the hooks of the app's plugins. It isn't called for phases that are skipped.
+     * @returns {MaybePromise} A promise if the phase or a previous phase is asynchronous, otherwise undefined.
+     */
+    runLifecycle(
+        phase: ModuleLifecyclePhase,
+        after?: MaybePromise,
+        wrap?: (run: () => MaybePromise) => MaybePromise
+    ): MaybePromise
+    {
+        const run = () => whenDone(after, () => {
+            if (!wrap || this.isPhaseSkipped(phase)) return this.runLifecyclePhase(phase);
+
+            return wrap(() => this.runLifecyclePhase(phase));
+        });
+        const result = this._lifecycle ? this._lifecycle.then(run, run) : run();
+
+        if (!isPromise(result)) return;
+
+        const lifecycle: Promise<void> = result.finally(() => {
+            if (this._lifecycle === lifecycle) {
+                this._lifecycle = null;
+            }
+        });
+
+        this._lifecycle = lifecycle;
+
+        return lifecycle;
+    }
+
+    private runLifecyclePhase(phase: ModuleLifecyclePhase): MaybePromise
+    {
+        switch (phase) {
+        case "init":
+            this._state = "initializing";
+
+            return whenDone(this.beforeInit(), () => {
+                this.parseOptions();
+
+                return this.init();
+            });
+        case "ready":
+            return whenDone(this.ready(), () => {
+                this._state = "ready";
+            });
+        case "destroy":
+            if (this.isPhaseSkipped(phase)) return;
+
+            this._state = "destroying";
+
+            return whenDone(whenDone(this.beforeDestroy(), () => this.destroy()), () => {
+                this._state = "destroyed";
+            });
+        }
+    }
+
+    /**
+     * Checks if a lifecycle phase is skipped in the current state, which is the case for `destroy` if the module
+     * isn't initialized.
+     *
+     * @param {ModuleLifecyclePhase} phase - The lifecycle phase.
+     * @returns {boolean} True if the phase is skipped.
+     * @private
+     */
+    private isPhaseSkipped(phase: ModuleLifecyclePhase): boolean
+    {
+        return phase === "destroy" && (this._state === "idle" || this._state === "destroyed");
+    }
+
+    /**
+     * Hook called when a `data-<name>-*` attribute of the module's element changes after `init()`.
+     * Implement this method in subclasses to opt in. Multiple changes of the same attribute within
+     * one frame are coalesced into one call.
+     * Options of the `options` schema are passed by their name with parsed values and `this.options` is updated
+     * beforehand, other attributes are passed by their suffix with raw values.
+     *
+     * @param {string} name - The name of the option, or the attribute suffix.
+     * @param {*} newValue - The new value.
+     * @param {*} oldValue - The value before the first change within the frame.
+     */
+    optionChanged?(name: string, newValue: unknown, oldValue: unknown): void;
+
+    /**
+     * Hook called by `App.replaceModule()` before the instance is destroyed to be replaced by an instance of a new
+     * version of its class, e.g. on a hot update. Implement this method in subclasses to carry state over.
+     *
+     * @returns {unknown} The state passed to `restoreState()` of the new instance.
+     */
+    serializeState?(): unknown;
+
+    /**
+     * Hook called by `App.replaceModule()` on the new instance after it was initialized in place of a replaced one,
+     * with the state returned by `serializeState()` of the replaced instance.
+     *
+     * @param {unknown} state - The state of the replaced instance.
+     */
+    restoreState?(state: unknown): void;
+
+
+
+    /**
+     * Registers a function that is called on `destroy()` to release a resource.
+     *
+     * @param {() => void} dispose - The function releasing the resource.
+     * @returns {() => void} A function that releases the resource early.
+     */
+    addDisposable(dispose: () => void): () => void
+    {
+        const untrack = this.trackDisposable(dispose);
+
+        return () => {
+            untrack();
+            dispose();
+        };
+    }
+
+    /**
+     * Calls a function after a delay, unless the module is destroyed before.
+     *
+     * @param {() => void} callback - The function to call.
+     * @param {number} [delay] - The delay in milliseconds.
+     * @returns {number} The timeout id, which can be passed to `clearTimeout()`.
+     */
+    setTimeout(callback: () => void, delay?: number): number
+    {
+        const id = window.setTimeout(() => {
+            untrack();
+            callback();
+        }, delay);
+        const untrack = this.trackDisposable(() => window.clearTimeout(id));
+
+        return id;
+    }
+
+    /**
+     * Calls a function repeatedly until the module is destroyed.
+     *
+     * @param {() => void} callback - The function to call.
+     * @param {number} [delay] - The interval in milliseconds.
+     * @returns {number} The interval id, which can be passed to `clearInterval()`.
+     */
+    setInterval(callback: () => void, delay?: number): number
+    {
+        const id = window.setInterval(callback, delay);
+        this.trackDisposable(() => window.clearInterval(id));
+
+        return id;
+    }
+
+    /**
+     * Requests an animation frame that is cancelled if the module is destroyed before.
+     * Call it again from the callback to run an animation loop that stops on `destroy()`.
+     *
+     * @param {FrameRequestCallback} callback - The function to call before the next repaint.
+     * @returns {number} The request id, which can be passed to `cancelAnimationFrame()`.
+     */
+    raf(callback: FrameRequestCallback): number
+    {
+        const id = requestAnimationFrame((time) => {
+            untrack();
+            callback(time);
+        });
+        const untrack = this.trackDisposable(() => cancelAnimationFrame(id));
+
+        return id;
+    }
+
+    /**
+     * Observes the size of an element until the module is destroyed.
+     *
+     * @param {Element} element - The element to observe.
+     * @param {ResizeObserverCallback} callback - The function called when the size changes.
+     * @param {ResizeObserverOptions} [options] - The observer options.
+     * @returns {() => void} A function that stops observing early.
+     */
+    observeResize(element: Element, callback: ResizeObserverCallback, options?: ResizeObserverOptions): () => void
+    {
+        const observer = new ResizeObserver(callback);
+        observer.observe(element, options);
+
+        return this.addDisposable(() => observer.disconnect());
+    }
+
+    /**
+     * Observes the intersection of an element until the module is destroyed.
+     *
+     * @param {Element} element - The element to observe.
+     * @param {IntersectionObserverCallback} callback - The function called when the intersection changes.
+     * @param {IntersectionObserverInit} [options] - The observer options.
+     * @returns {() => void} A function that stops observing early.
+     */
+    observeIntersection(element: Element, callback: IntersectionObserverCallback, options?: IntersectionObserverInit): () => void
+    {
+        const observer = new IntersectionObserver(callback, options);
+        observer.observe(element);
+
+        return this.addDisposable(() => observer.disconnect());
+    }
+
+    /**
+     * Calls the function once `this.signal` is aborted.
+     *
+     * @param {() => void} dispose - The function releasing a resource.
+     * @returns {() => void} A function that stops tracking without calling `dispose`.
+     * @private
+     */
+    private trackDisposable(dispose: () => void): () => void
+    {
+        const signal = this.signal;
+        const listener = () => dispose();
+
+        signal.addEventListener("abort", listener, { once: true });
+
+        return () => signal.removeEventListener("abort", listener);
+    }
+
+    /**
+     * Subscribes a handler to an event of the app's event bus. The subscription is removed on `destroy()`.
+     *
+     * @param {string} type - The event type, `*` for all events or `<namespace>:*` for all events of a namespace.
+     * @param {EventHandler} handler - The function called with the payload and the event type.
+     * @returns {void}
+     */
+    on<K extends EventType<Events>>(type: K, handler: EventHandler<EventPayload<Events, K>>): void
+    {
+        const unsubscribe = this.getEventBus().on(type, handler);
+
+        this._eventSubscriptions.push({ type, handler, unsubscribe });
+    }
+
+    /**
+     * Subscribes a handler to an event of the app's event bus that is removed after it was called once.
+     *
+     * @param {string} type - The event type, `*` for all events or `<namespace>:*` for all events of a namespace.
+     * @param {EventHandler} handler - The function called with the payload and the event type.
+     * @returns {void}
+     */
+    once<K extends EventType<Events>>(type: K, handler: EventHandler<EventPayload<Events, K>>): void
+    {
+        const unsubscribe = this.getEventBus().once(type, handler);
+
+        this._eventSubscriptions.push({ type, handler, unsubscribe });
+    }
+
+    /**
+     * Unsubscribes a handler of this module from an event of the app's event bus.
+     * Removes all handlers of this module for the type if no handler is given.
+     *
+     * @param {string} type - The event type the handler was subscribed to.
+     * @param {EventHandler} [handler] - The handler to remove.
+     * @returns {void}
+     */
+    off<K extends EventType<Events>>(type: K, handler?: EventHandler<EventPayload<Events, K>>): void
+    {
+        this._eventSubscriptions = this._eventSubscriptions.filter((subscription) => {
+            if (subscription.type !== type || (handler && subscription.handler !== handler)) {
+                return true;
+            }
+
+            subscription.unsubscribe();
+
+            return false;
+        });
+    }
+
+    /**
+     * Emits an event on the app's event bus.
+     *
+     * @param {string} type - The event type.
+     * @param {*} [payload] - The payload passed to the handlers.
+     * @returns {void}
+     */
+    emit<K extends keyof Events & string>(type: K, payload?: Events[K]): void
+    {
+        this.getEventBus().emit(type, payload);
+    }
+
+    /**
+     * Calls a method on all instances of a module within the app, or on the instance with the given id.
+     *
+     * @template M - The type of the module.
+     * @param {ModuleClass<M>} module - The module class.
+     * @param {string} method - The name of the method to call.
+     * @param {Array} [args] - The arguments passed to the method.
+     * @param {string} [id] - The value of the `data-module-<name>` attribute of the instance to call.
+     * @returns {Array} The return values of the called methods.
+     */
+    call<M extends Module<any, any, any>, K extends ModuleMethod<M>>(
+        module: ModuleClass<M>,
+        method: K,
+        args?: Parameters<ModuleMethodFunction<M, K>>,
+        id?: string
+    ): ReturnType<ModuleMethodFunction<M, K>>[]
+    {
+        const app = this.getApp();
+        const instances = id === undefined ? app.getModules(module) : [app.getModuleById(module, id)];
+
+        return instances
+            .filter((instance): instance is M => instance !== null)
+            .map((instance) => (instance[method] as ModuleMethodFunction<M, K>)(...(args || [])));
+    }
+
+    /**
+     * Returns the direct child modules that are instances of the given module class.
+     *
+     * @template M - The type of the module.
+     * @param {ModuleClass<M>} module - The module class.
+     * @returns {M[]} The child modules.
+     */
+    getChildren<M extends Module<any, any, any>>(module: ModuleClass<M>): M[]
+    {
+        return this.childModules.filter((child): child is M => child instanceof module);
+    }
+
+    /**
+     * Returns a service of the app, created on first use. Providers registered for an element containing the
+     * module take precedence over the ones of the app.
+     *
+     * @template T - The type of the service.
+     * @param {ServiceKey<T>} key - The service key, a class or a key created with `createServiceKey()`.
+     * @returns {T} The service.
+     * @throws {Error} If the module isn't attached to an app or no provider applies.
+     */
+    inject<T>(key: ServiceKey<T>): T
+    {
+        return this.getApp().services.resolve(key, this);
+    }
+
+    private getApp(): App
+    {
+        if (!this.app) {
+            throw new Error(`Module "${this.name}" is not attached to an app.`);
+        }
+
+        return this.app;
+    }
+
+    private getEventBus(): EventEmitter<Events>
+    {
+        return this.getApp().events as EventEmitter<any>;
+    }
+
+
+
+    /**
+     * Adds an event listener to one or more DOM elements.
+     * The type may be namespaced, e.g. "click.menu", to remove a group of listeners at once later on.
+     *
+     * @param {string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s) to attach the event listener to. Can be a string selector, a single DOM element, or an array of DOM elements.
+     * @param {string} type - A string representing the event type to listen for, e.g., "click" or "mouseover", optionally followed by namespaces, e.g. "click.menu".
+     * @param {EventListenerOrEventListenerObject} listener - The function or object that receives a notification when an event of the specified type occurs.
+     * @param {null | boolean | AddEventListenerOptions} options - An optional parameter that specifies characteristics about the event listener.
+     * @returns {void}
+     */
+    addEventListener(
+        targets: string | EventTarget | EventTarget[],
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        options?: boolean | AddEventListenerOptions
+    ): void
+    {
+        this.registerEventListener(targets, type, listener, listener, options);
+    }
+
+    /**
+     * Removes event listeners from one or more DOM elements or targets.
+     *
+     * - `removeEventListener(targets, "click")` removes all click listeners, regardless of their namespaces.
+     * - `removeEventListener(targets, "click.menu")` removes all click listeners of the "menu" namespace.
+     * - `removeEventListener(null, ".menu")` removes all listeners of the "menu" namespace from all targets.
+     * - `removeEventListener(targets, "click", listener)` removes only the given listener.
+     *
+     * If options are given, only listeners with a matching capture flag are removed.
+     *
+     * @param {null | string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s) from which to remove the event listener. Can be a string selector, a single DOM element, an array of DOM elements, or null for all targets.
+     * @param {string} type - A string representing the event type for which to remove the listener, e.g., "click" or "mouseover", optionally followed by namespaces, e.g. "click.menu" or ".menu".
+     * @param {EventListenerOrEventListenerObject | boolean | EventListenerOptions} [listener] - The listener to remove, or the options.
+     * @param {null | boolean | EventListenerOptions} options - An optional parameter that specifies characteristics about the event listener.
+     * @returns {void}
+     */
+    removeEventListener(
+        targets: null | string | EventTarget | EventTarget[],
+        type: string,
+        listener?: null | EventListenerOrEventListenerObject | boolean | EventListenerOptions,
+        options?: boolean | EventListenerOptions
+    ): void
+    {
+        if (typeof listener === "boolean" || (listener && typeof listener !== "function" && !("handleEvent" in listener))) {
+            options = listener;
+            listener = null;
+        }
+
+        const $targets = targets === null ? null : this.getEventTargets(targets);
+        const [eventType, ...namespaces] = type.split(".");
+        const capture = options === undefined ? null : this.getCapture(options);
+
+        this._eventListeners = this._eventListeners.filter((entry) => {
+            const matches = (!$targets || $targets.includes(entry.target))
+                && (!eventType || entry.type === eventType)
+                && namespaces.every((namespace) => entry.namespaces.includes(namespace))
+                && (!listener || entry.listener === listener)
+                && (capture === null || entry.capture === capture);
+
+            if (!matches) return true;
+
+            entry.remove();
+
+            return false;
+        });
+    }
+
+    /**
+     * Returns the event listeners added by the module that weren't removed yet, including delegated and declarative
+     * listeners, e.g. to check for leaks after `destroy()` in tests.
+     *
+     * @returns {{target: EventTarget, type: string, capture: boolean}[]} The targets, event types and capture flags.
+     */
+    getEventListeners(): { target: EventTarget, type: string, capture: boolean }[]
+    {
+        return this._eventListeners.map(({ target, type, capture }) => ({ target, type, capture }));
+    }
+
+    /**
+     * Adds the wrapped listener to the targets and records it, so it can be removed by the original listener,
+     * its type or namespaces and is removed on `destroy()` by aborting the lifecycle's signal.
+     *
+     * @param {string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s).
+     * @param {string} type - The event type, optionally followed by namespaces.
+     * @param {EventListenerOrEventListenerObject} listener - The original listener, used for removal by reference.
+     * @param {EventListenerOrEventListenerObject} handler - The listener actually called, e.g. a filtered listener.
+     * @param {null | boolean | AddEventListenerOptions} options - The listener options.
+     * @param {boolean} delegate - Whether a listener on the module's element is delegated to the app's root listener,
+     * if the app has event delegation enabled.
+     * @private
+     */
+    private registerEventListener(
+        targets: string | EventTarget | EventTarget[],
+        type: string,
+        listener: EventListenerOrEventListenerObject,
+        handler: EventListenerOrEventListenerObject,
+        options?: boolean | AddEventListenerOptions,
+        delegate = false
+    ): void
+    {
+        const [eventType, ...namespaces] = type.split(".");
+        const capture = this.getCapture(options);
+        const once = typeof options === "object" && !!options.once;
+        const signal = typeof options === "object" ? options.signal : undefined;
+        const isolatedListener = this.getIsolatedEventListener(handler);
+
+        for (const $target of this.getEventTargets(targets)) {
+            const entry: ModuleEventListener = {
+                target: $target,
+                type: eventType,
+                namespaces,
+                listener,
+                capture,
+                wrappedListener: (event) => {
+                    if (once) {
+                        this._eventListeners = this._eventListeners.filter((item) => item !== entry);
+                        entry.remove();
+                    }
+
+                    isolatedListener(event);
+                },
+                remove: () => $target.removeEventListener(eventType, entry.wrappedListener, capture),
+            };
+
+            const delegator = this.app?.delegator;
+
+            if (delegate && delegator && $target === this.el) {
+                const remove = delegator.add($target, eventType, entry.wrappedListener, capture);
+                const untrack = this.trackDisposable(remove);
+
+                entry.remove = () => {
+                    untrack();
+                    remove();
+                };
+            } else {
+                $target.addEventListener(eventType, entry.wrappedListener, {
+                    ...(typeof options === "object" ? options : {}),
+                    capture,
+                    signal: this._abortController.signal,
+                });
+            }
+
+            signal?.addEventListener("abort", () => {
+                this.removeEventListener($target, eventType, listener, { capture });
+            }, { once: true, signal: this._abortController.signal });
+
+            this._eventListeners.push(entry);
+        }
+    }
+
+    /**
+     * Resolves event targets from a module scoped selector, a single target or an array of targets.
+     *
+     * @param {string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s).
+     * @returns {EventTarget[]} The event targets.
+     * @private
+     */
+    private getEventTargets(targets: string | EventTarget | EventTarget[]): EventTarget[]
+    {
+        if (typeof targets === "string") {
+            return this.$all(targets);
+        }
+
+        return Array.isArray(targets) ? targets : [targets];
+    }
+
+    private getCapture(options?: boolean | EventListenerOptions): boolean
+    {
+        return typeof options === "boolean" ? options : !!options?.capture;
+    }
+
+    /**
+     * Binds the static `events` map and the `data-<name>-on` markup bindings of the module.
+     * Listeners are added with the "events" namespace.
+     *
+     * @private
+     */
+    private bindDeclarativeEvents(): void
+    {
+        const module = this.constructor as typeof Module;
+
+        for (const [type, binding] of Object.entries(module.events)) {
+            const capture = nonBubblingEvents.includes(type);
+
+            if (typeof binding === "string") {
+                const method = this.getEventMethod(binding, `static events "${type}"`);
+                method && this.registerEventListener(this.el, `${type}.events`, method, method, capture, true);
+                continue;
+            }
+
+            for (const [selector, methodName] of Object.entries(binding)) {
+                const method = this.getEventMethod(methodName, `static events "${type}" > "${selector}"`);
+                method && this.addFilteredEventListener(this.el, `${type}.events`, method, selector, capture);
+            }
+        }
+
+        const attribute = this.getModuleAttributeName("on");
+        const selector = `[${escapeAttributeName(attribute)}]`;
+        const types = new Set<string>();
+
+        const listen = (elements: Element[], additionalTypes: string[] = []) => {
+            for (const type of [...additionalTypes, ...this.getMarkupEventTypes(elements, attribute)]) {
+                if (types.has(type)) continue;
+
+                const listener = (event: Event) => this.dispatchMarkupEvent(event, attribute);
+                this.registerEventListener(this.el, `${type}.events`, listener, listener, nonBubblingEvents.includes(type), true);
+                types.add(type);
+            }
+        };
+
+        listen(this.$all(selector, this.el, false), module.markupEvents);
 
-    /**
-     * Creates an instance of the Module class.
-     *
-     * @param {HTMLElement} el - Options for configuring the module.
-     * @constructor
-     * @note Handle tasks in the constructor that are essential for initializing the module
-     * but should have no adverse effects if the module undergoes updates (destroy and init)
-     * without creating a new instance. The constructor is suitable for code that ensures
-     * the module's basic structure and functionality, facilitating smooth reinitialization when necessary.
-     */
-    constructor(el: HTMLElement)
-    {
-        const name = this.constructor.name;
-        this._name = isFirstCharUppercase(name) ? pascalToKebab(name) : name;
+        // Bindings added later may use types that aren't listened for yet.
+        const observer = new MutationObserver((mutations) => {
+            const elements: Element[] = [];
 
-        this._moduleAttribute = `data-${this.name}`;
-        this._eventListeners = new Map();
+            for (const mutation of mutations) {
+                if (mutation.type === "attributes") {
+                    elements.push(mutation.target as Element);
+                    continue;
+                }
 
-        this.el = el;
-        this.$elements = null;
-        this.autoQueryElements = false;
-        this.autoBind = true;
-    }
+                for (const node of mutation.addedNodes) {
+                    if (!(node instanceof Element)) continue;
 
+                    node.matches(selector) && elements.push(node);
+                    elements.push(...node.querySelectorAll(selector));
+                }
+            }
 
+            listen(elements.filter(($element) => $element.hasAttribute(attribute)));
+        });
 
-    /**
-     * Initialization method for the module. Override this method in subclasses.
-     *
-     * @note Perform operations such as value extraction and other setup that are intended
-     * to occur once during the initialization phase. Keep in mind that modules may undergo
-     * updates (destroy and init) without necessitating the creation of a new instance.
-     */
-    init() {
-        this.$elements = this.autoQueryElements ? this.queryModuleElements() : null;
+        observer.observe(this.el, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: [attribute],
+        });
 
-        this.autoBind && bind(this);
+        this.addDisposable(() => observer.disconnect());
     }
 
     /**
-     * Destructor method for the module. Removes all event listeners.
+     * Returns the event types of the markup bindings of the given elements and warns about missing methods.
+     *
+     * @param {Element[]} elements - The elements with markup bindings.
+     * @param {string} attribute - The name of the markup binding attribute.
+     * @returns {Set<string>} The event types.
+     * @private
      */
-    destroy()
+    private getMarkupEventTypes(elements: Element[], attribute: string): Set<string>
     {
-        this._eventListeners.forEach((listeners, element) => {
-            listeners.forEach((listener, eventName) => {
-                element.removeEventListener(eventName, listener);
-            });
-        });
-    }
+        const types = new Set<string>();
 
+        for (const $element of elements) {
+            const value = $element.getAttribute(attribute)!;
 
+            for (const binding of parseEventBindings(value)) {
+                this.getEventMethod(binding.method, `${attribute}="${value}"`, $element);
+                types.add(binding.type);
+            }
+        }
+
+        return types;
+    }
 
     /**
-     * Adds an event listener to one or more DOM elements.
+     * Calls the methods bound by `data-<name>-on` attributes on the event target and its ancestors within the module.
      *
-     * @param {string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s) to attach the event listener to. Can be a string selector, a single DOM element, or an array of DOM elements.
-     * @param {string} type - A string representing the event type to listen for, e.g., "click" or "mouseover".
-     * @param {EventListenerOrEventListenerObject} listener - The function or object that receives a notification when an event of the specified type occurs.
-     * @param {null | boolean | AddEventListenerOptions} options - An optional parameter that specifies characteristics about the event listener.
-     * @returns {void}
+     * @param {Event} event - The event.
+     * @param {string} attribute - The name of the markup binding attribute.
+     * @private
      */
-    addEventListener(
-        targets: string | EventTarget | EventTarget[],
-        type: string,
-        listener: EventListenerOrEventListenerObject,
-        options?: boolean | AddEventListenerOptions
-    ): void
+    private dispatchMarkupEvent(event: Event, attribute: string): void
     {
-        let $targets: EventTarget[];
+        let $element = event.target instanceof Element ? event.target : null;
 
-        if (typeof targets === "string") {
-            $targets = this.$all(targets);
-        } else if (!Array.isArray(targets)) {
-            $targets = [targets];
-        } else {
-            $targets = targets;
+        // Bindings inside nested instances of the same module, including their module element, belong to them.
+        const nested = $element && !(this.constructor as typeof Module).deepQueries && this.getNestedModuleElement($element);
+        if (nested) {
+            $element = nested.parentElement;
         }
 
-        $targets.forEach(($target) => {
-            if (!this._eventListeners.has($target)) {
-                this._eventListeners.set($target, new Map());
+        while ($element) {
+            const value = $element.getAttribute(attribute);
+
+            for (const binding of value ? parseEventBindings(value) : []) {
+                if (binding.type !== event.type || !applyEventModifiers(event, binding.modifiers)) continue;
+
+                const method = this.getEventMethod(binding.method, `${attribute}="${value}"`, $element);
+                if (!method) continue;
+
+                Object.defineProperty(event, "currentTarget", { value: $element, configurable: true });
+                method(event);
             }
 
-            $target.addEventListener(type, listener, options);
+            if ($element === this.el) break;
 
-            this._eventListeners.get($target)?.set(type, listener);
-        });
+            $element = $element.parentElement;
+        }
     }
 
     /**
-     * Removes an event listener from one or more DOM elements or targets.
+     * Returns the method of the module with the given name, bound to the module.
+     * Warns if the module has no such method.
      *
-     * @param {string | EventTarget | EventTarget[]} targets - The target element(s) or module scoped element(s) from which to remove the event listener. Can be a string selector, a single DOM element, or an array of DOM elements.
-     * @param {string} type - A string representing the event type for which to remove the listener, e.g., "click" or "mouseover".
-     * @param {null | boolean | EventListenerOptions} options - An optional parameter that specifies characteristics about the event listener.
-     * @returns {void}
+     * @param {string} name - The name of the method.
+     * @param {string} source - A description of where the method is referenced, used in the warning.
+     * @param {Element} [element] - The element the method is referenced on, used in the warning.
+     * @returns {null | EventListener} The method, or null if it doesn't exist.
+     * @private
      */
-    removeEventListener(
-        targets: string | EventTarget | EventTarget[],
-        type: string,
-        options?: boolean | EventListenerOptions
-    ): void
+    private getEventMethod(name: string, source: string, element?: Element): null | EventListener
     {
-        let $targets: EventTarget[];
+        const method = (this as any)[name];
 
-        if (typeof targets === "string") {
-            $targets = this.$all(targets);
-        } else if (!Array.isArray(targets)) {
-            $targets = [targets];
-        } else {
-            $targets = targets;
+        if (typeof method !== "function") {
+            console.warn(`Module "${this.name}" has no method "${name}" referenced by ${source}.`, element || this.el);
+            return null;
         }
 
-        for (const $target of $targets) {
-            if (!this._eventListeners.has($target)) {
-                continue;
-            }
+        return method.bind(this);
+    }
+
+    /**
+     * Wraps an event listener, so errors thrown by it are reported to the app instead of propagating.
+     * Without an app, errors are rethrown.
+     *
+     * @param {EventListenerOrEventListenerObject} listener - The event listener.
+     * @returns {EventListener} The wrapped event listener.
+     * @private
+     */
+    private getIsolatedEventListener(listener: EventListenerOrEventListenerObject): EventListener
+    {
+        const onError = (error: unknown) => {
+            if (!this.app) throw error;
 
-            const listener = this._eventListeners.get($target)!.get(type);
+            this.app.reportError(error, { module: this, name: this.name, element: this.el, phase: "listener" });
+        };
 
-            if (!listener) {
-                continue;
-            }
+        return (event) => {
+            try {
+                const result: unknown = typeof listener === "function"
+                    ? listener.call(event.currentTarget, event)
+                    : listener.handleEvent(event);
 
-            $target.removeEventListener(type, listener, options);
-            this._eventListeners.get($target)!.delete(type);
-        }
+                isPromise(result) && result.catch(onError);
+            } catch (error) {
+                onError(error);
+            }
+        };
     }
 
     /**
@@ -177,7 +1041,7 @@ export class Module {
         options?: boolean | AddEventListenerOptions
     ): void
     {
-        this.addEventListener(targets, type, this.getModuleSelectorFilteredEventListener(selector, listener), options);
+        this.registerEventListener(targets, type, listener, this.getModuleSelectorFilteredEventListener(selector, listener), options, true);
     }
 
     /**
@@ -204,11 +1068,18 @@ export class Module {
      *
      * @param {string} selector - A CSS selector string representing the elements to which the event listener will be attached. @see {getSelectorQuery}
      * @param {EventListener} listener - The event listener function to be called when the event occurs.
+     * @param {boolean} deep - Whether elements inside nested instances of the same module are included. Defaults to `deepQueries`.
      * @returns {EventListener} The filtered event listener function for the specified selector within the module.
      */
-    getModuleSelectorFilteredEventListener(selector: string, listener: EventListener): EventListener
+    getModuleSelectorFilteredEventListener(
+        selector: string,
+        listener: EventListener,
+        deep: boolean = (this.constructor as typeof Module).deepQueries
+    ): EventListener
     {
-        return getSelectorFilteredEventListener(this.getSelectorQuery(selector), listener);
+        const filter = deep ? undefined : ($element: HTMLElement) => !this.isNestedElement($element);
+
+        return getSelectorFilteredEventListener(this.getSelectorQuery(selector), listener, filter);
     }
 
 
@@ -220,13 +1091,25 @@ export class Module {
      * @param {string} selector - The CSS selector for the element.
      * @param {ParentNode} [context] - The context element to search within.
      * @param {boolean} useModuleSelector - An optional parameter indicating whether to use module-specific selectors. Default is true.
+     * @param {boolean} deep - Whether elements inside nested instances of the same module are included. Defaults to `deepQueries`.
      * @returns {E | null} The first matching element, or null if not found.
      */
-    $<E extends HTMLElement = HTMLElement>(selector: string, context?: ParentNode, useModuleSelector: boolean = true): E | null
+    $<E extends HTMLElement = HTMLElement>(
+        selector: string,
+        context?: ParentNode,
+        useModuleSelector: boolean = true,
+        deep: boolean = (this.constructor as typeof Module).deepQueries
+    ): E | null
     {
         const parentNode = context || this.el;
+        const query = useModuleSelector ? this.getSelectorQuery(selector) : selector;
+        const $element = parentNode.querySelector<E>(query);
+
+        if (deep || !$element || !this.isNestedElement($element)) {
+            return $element;
+        }
 
-        return parentNode.querySelector<E>(useModuleSelector ? this.getSelectorQuery(selector) : selector);
+        return this.$all<E>(query, parentNode, false, false)[0] || null;
     }
 
     /**
@@ -236,13 +1119,20 @@ export class Module {
      * @param {string} selector - The CSS selector for the elements.
      * @param {ParentNode} [context] - The context element to search within.
      * @param {boolean} useModuleSelector - An optional parameter indicating whether to use module-specific selectors. Default is true.
+     * @param {boolean} deep - Whether elements inside nested instances of the same module are included. Defaults to `deepQueries`.
      * @returns {E[]} An array of matching elements.
      */
-    $all<E extends HTMLElement = HTMLElement>(selector: string, context?: ParentNode, useModuleSelector: boolean = true): E[]
+    $all<E extends HTMLElement = HTMLElement>(
+        selector: string,
+        context?: ParentNode,
+        useModuleSelector: boolean = true,
+        deep: boolean = (this.constructor as typeof Module).deepQueries
+    ): E[]
     {
         const parentNode = context || this.el;
+        const elements = Array.from(parentNode.querySelectorAll<E>(useModuleSelector ? this.getSelectorQuery(selector) : selector));
 
-        return Array.from(parentNode.querySelectorAll<E>(useModuleSelector ? this.getSelectorQuery(selector) : selector));
+        return deep ? elements : elements.filter(($element) => !this.isNestedElement($element));
     }
 
     /**
@@ -252,12 +1142,25 @@ export class Module {
      * @param {string} selector - The CSS selector for the parent element.
      * @param {ParentNode} [context] - The context element to search within.
      * @param {boolean} useModuleSelector - An optional parameter indicating whether to use module-specific selectors. Default is true.
+     * @param {boolean} deep - Whether elements inside nested instances of the same module are included. Defaults to `deepQueries`.
      * @returns {E | null} The first matching parent element, or null if not found.
      */
-    $parent<E extends HTMLElement>(selector: string, context?: ParentNode, useModuleSelector: boolean = true): E | null
+    $parent<E extends HTMLElement>(
+        selector: string,
+        context?: ParentNode,
+        useModuleSelector: boolean = true,
+        deep: boolean = (this.constructor as typeof Module).deepQueries
+    ): E | null
     {
         const query = useModuleSelector ? this.getSelectorQuery(selector) : selector;
-        return findParent(context ? context : this.el, query);
+        const $parent = findParent<E>(context ? context : this.el, query);
+
+        if (deep || !$parent || !this.isNestedElement($parent)) {
+            return $parent;
+        }
+
+        // The closest match belongs to a nested instance, continue above its module element.
+        return this.$parent<E>(query, this.getNestedModuleElement($parent)!.parentElement!, false, false);
         // let parentNode: ParentNode | null = context ? context : this.el;
         //
         // while (parentNode && parentNode !== document.documentElement && parentNode instanceof Element) {
@@ -272,10 +1175,47 @@ export class Module {
     }
 
 
+    /**
+     * Returns the outermost element between the given element, itself included, and the module's element that is the
+     * element of a nested instance of the same module.
+     *
+     * @param {Element} element - The element.
+     * @returns {null | Element} The nested module element, or null if the element isn't inside a nested instance.
+     * @private
+     */
+    private getNestedModuleElement(element: Element): null | Element
+    {
+        const selector = (this.constructor as typeof Module).getModuleSelector(this.getAttributeConvention());
+        let nested: null | Element = null;
+        let current = element.closest(selector);
+
+        while (current && current !== this.el && this.el.contains(current)) {
+            nested = current;
+            current = current.parentElement?.closest(selector) || null;
+        }
+
+        return nested;
+    }
+
+    /**
+     * Checks if an element belongs to a nested instance of the same module, i.e. is inside its module element.
+     * The module element of a nested instance itself still belongs to this module.
+     *
+     * @param {Element} element - The element.
+     * @returns {boolean} True if the element belongs to a nested instance.
+     * @private
+     */
+    private isNestedElement(element: Element): boolean
+    {
+        const nested = this.getNestedModuleElement(element);
+
+        return nested !== null && nested !== element;
+    }
+
     private queryModuleElements(): ModuleElements
     {
-        return this.$all(`[${this._moduleAttribute}]`).reduce<ModuleElements>((carry, $el) => {
-            const name = $el.getAttribute(this._moduleAttribute);
+        return this.$all(`[${escapeAttributeName(this.getModuleAttribute())}]`).reduce<ModuleElements>((carry, $el) => {
+            const name = $el.getAttribute(this.getModuleAttribute());
             if (!name) return carry;
 
             if (!carry.hasOwnProperty(name)) {
@@ -294,6 +1234,89 @@ export class Module {
         }, {});
     }
 
+    /**
+     * Queries all refs of the module's refs schema.
+     *
+     * @returns {ModuleRefs<Refs>} The refs.
+     * @throws {TypeError} If a ref has an element of the wrong type or a required ref is missing.
+     * @private
+     */
+    private queryRefs(): ModuleRefs<Refs>
+    {
+        const schema = (this.constructor as typeof Module).refs;
+        const refs: Record<string, unknown> = {};
+
+        for (const [name, definition] of Object.entries(schema)) {
+            refs[name] = this.queryRef(name, definition);
+        }
+
+        return refs as ModuleRefs<Refs>;
+    }
+
+    /**
+     * Queries a ref and checks it against its definition.
+     *
+     * @param {string} name - The name of the ref.
+     * @param {RefDefinition} definition - The definition of the ref.
+     * @returns {Element | Element[] | null} The value of the ref.
+     * @throws {TypeError} If the ref has an element of the wrong type or is required and missing.
+     * @private
+     */
+    private queryRef(name: string, definition: RefDefinition): Element | Element[] | null
+    {
+        const value = pascalToKebab(name);
+
+        try {
+            return resolveRef(definition, this.$all(value));
+        } catch (error) {
+            throw new TypeError(`Module "${this.name}" has an invalid ref "${name}" (${this.getModuleAttribute()}="${value}"), ${(error as Error).message}.`);
+        }
+    }
+
+    /**
+     * Keeps `this.refs` in sync with the module's element if `liveRefs` is enabled. Arrays are updated in place,
+     * invalid refs are reported as warnings and keep their previous value.
+     *
+     * @private
+     */
+    private observeRefs(): void
+    {
+        const {refs: schema, liveRefs} = this.constructor as typeof Module;
+        if (!liveRefs || !Object.keys(schema).length) return;
+
+        const observer = new MutationObserver(() => {
+            const refs = this.refs as Record<string, unknown>;
+
+            for (const [name, definition] of Object.entries(schema)) {
+                let value: Element | Element[] | null;
+
+                try {
+                    value = this.queryRef(name, definition);
+                } catch (error) {
+                    console.warn((error as Error).message, this.el);
+                    continue;
+                }
+
+                const current = refs[name];
+
+                if (Array.isArray(current) && Array.isArray(value)) {
+                    current.splice(0, current.length, ...value);
+                } else {
+                    refs[name] = value;
+                }
+            }
+        });
+
+        observer.observe(this.el, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: [this.getModuleAttribute()],
+        });
+
+        this.addDisposable(() => observer.disconnect());
+    }
+
 
     /**
      * Retrieves data attribute value from the module's element.
@@ -328,6 +1351,145 @@ export class Module {
     }
 
 
+    /**
+     * Parses the options of the module's schema from the module's element into `this.options`.
+     * Missing required options and invalid values are reported as warnings, invalid values fall back to the default.
+     * This is called automatically by the app before `init()`.
+     *
+     * @returns {void}
+     */
+    parseOptions(): void
+    {
+        const schema = (this.constructor as typeof Module).options;
+        const options: Record<string, unknown> = {};
+
+        for (const [name, definition] of Object.entries(schema)) {
+            const attribute = this.getModuleAttributeName(pascalToKebab(name));
+
+            options[name] = this.parseOptionValue(name, definition, this.el.getAttribute(attribute));
+        }
+
+        this.options = options as ModuleOptions<Options>;
+    }
+
+    /**
+     * Parses a raw attribute value of an option and warns about missing required options and invalid values.
+     *
+     * @param {string} name - The name of the option.
+     * @param {OptionDefinition} definition - The definition of the option.
+     * @param {string | null} value - The raw attribute value.
+     * @param {boolean} [warn] - Whether to warn about missing and invalid values.
+     * @returns {unknown} The parsed value, or the default if the value is missing or invalid.
+     * @private
+     */
+    private parseOptionValue(name: string, definition: OptionDefinition, value: string | null, warn = true): unknown
+    {
+        const attribute = this.getModuleAttributeName(pascalToKebab(name));
+
+        if (value === null) {
+            if (definition.required && warn) {
+                console.warn(`Module "${this.name}" is missing the required option "${name}" (${attribute}).`, this.el);
+            }
+
+            return definition.default;
+        }
+
+        try {
+            return parseOption(definition, value);
+        } catch (error) {
+            warn && console.warn(`Module "${this.name}" has an invalid value "${value}" for option "${name}" (${attribute}), ${(error as Error).message}.`, this.el);
+        }
+
+        return definition.default;
+    }
+
+    /**
+     * Starts watching the module's attribute namespace if the module implements `optionChanged()`.
+     *
+     * @private
+     */
+    private observeOptions(): void
+    {
+        if (!this.optionChanged || this._optionObserver) return;
+
+        const prefix = `${this.getModuleAttributeName()}${this.getAttributeConvention().separator}`;
+
+        this._optionObserver = new MutationObserver((mutations) => {
+            for (const mutation of mutations) {
+                const attribute = mutation.attributeName!;
+
+                if (!attribute.startsWith(prefix) || this._optionChanges.has(attribute)) continue;
+
+                this._optionChanges.set(attribute, mutation.oldValue);
+            }
+
+            if (this._optionChanges.size && this._optionFrame === null) {
+                this._optionFrame = requestAnimationFrame(() => this.flushOptionChanges());
+            }
+        });
+
+        this._optionObserver.observe(this.el, {
+            attributes: true,
+            attributeOldValue: true,
+        });
+    }
+
+    /**
+     * Calls `optionChanged()` once for every attribute changed during the last frame.
+     *
+     * @private
+     */
+    private flushOptionChanges(): void
+    {
+        const changes = this._optionChanges;
+        const schema = (this.constructor as typeof Module).options;
+        const prefix = `${this.getModuleAttributeName()}${this.getAttributeConvention().separator}`;
+
+        this._optionChanges = new Map();
+        this._optionFrame = null;
+
+        for (const [attribute, oldValue] of changes) {
+            const newValue = this.el.getAttribute(attribute);
+            if (newValue === oldValue) continue;
+
+            const suffix = attribute.slice(prefix.length);
+            const name = Object.keys(schema).find((option) => pascalToKebab(option) === suffix);
+
+            if (!name) {
+                this.optionChanged!(suffix, newValue, oldValue);
+                continue;
+            }
+
+            // The old value is parsed from the attribute, `setOption()` has already updated `this.options`.
+            const parsedValue = this.parseOptionValue(name, schema[name], newValue);
+            const parsedOldValue = this.parseOptionValue(name, schema[name], oldValue, false);
+
+            (this.options as Record<string, unknown>)[name] = parsedValue;
+
+            this.optionChanged!(name, parsedValue, parsedOldValue);
+        }
+    }
+
+    /**
+     * Sets an option of the module's schema and serializes it into its data attribute.
+     *
+     * @param {string} name - The name of the option.
+     * @param {*} value - The value to set. Use null or undefined to remove the attribute.
+     * @returns {void}
+     */
+    setOption<K extends keyof Options & string>(name: K, value: ModuleOptions<Options>[K] | null): void
+    {
+        const definition = (this.constructor as typeof Module).options[name];
+
+        if (!definition) {
+            throw new Error(`Module "${this.name}" has no option "${name}".`);
+        }
+
+        this.setData(pascalToKebab(name), serializeOption(definition, value));
+        this.options[name] = (value ?? definition.default) as ModuleOptions<Options>[K];
+    }
+
+
     /**
      * Returns the module attribute with an optional value appended.
      *
@@ -336,7 +1498,7 @@ export class Module {
      */
     getModuleAttribute(value?: string): string
     {
-        const result = this._moduleAttribute;
+        const result = `${this.getAttributeConvention().prefix}${this.name}`;
 
         if (value) {
             return `${result}="${value}"`;
@@ -349,19 +1511,29 @@ export class Module {
      * Generates a custom attribute name based on the module's name and an optional suffix.
      *
      * @param suffix - An optional string to append to the attribute name.
-     * @returns The custom attribute name, formatted as "data-{name}" or "data-{name}-{suffix}".
+     * @returns The custom attribute name, formatted as "data-{name}" or "data-{name}-{suffix}" by default.
      */
     getModuleAttributeName(suffix?: string): string
     {
-        const result = this._moduleAttribute;
+        const result = this.getModuleAttribute();
 
         if (suffix) {
-            return `${result}-${suffix}`;
+            return `${result}${this.getAttributeConvention().separator}${suffix}`;
         }
 
         return result;
     }
 
+    /**
+     * Returns the attribute convention of the module's app, or the default one if the module isn't part of an app.
+     *
+     * @returns {AttributeConvention}
+     */
+    getAttributeConvention(): AttributeConvention
+    {
+        return this.app ? this.app.attributes : defaultAttributeConvention;
+    }
+
     /**
      * Returns the selector query based on the provided selector.
      *
@@ -376,7 +1548,7 @@ export class Module {
         const attrIndex = selector.indexOf("[");
         const indexes = [classIndex, idIndex, attrIndex].filter((index) => index !== -1);
 
-        return indexes.length ? selector : `[${this._moduleAttribute}="${selector}"]`;
+        return indexes.length ? selector : `[${escapeAttributeName(this.getModuleAttribute())}="${selector}"]`;
     }
 
 
@@ -392,19 +1564,92 @@ export class Module {
     }
 
     /**
-     * Returns the CSS selector of the module's data attribute.
+     * Returns the name and the aliases of the module.
      *
+     * @returns {string[]}
+     */
+    static getNames(): string[]
+    {
+        return [this.getName(), ...this.aliases];
+    }
+
+    /**
+     * Returns the CSS selector of the module's elements, including the elements of its aliases.
+     *
+     * @param {AttributeConvention} [convention] - The attribute convention of the app.
      * @returns {string}
      */
-    static getModuleSelector(): string
+    static getModuleSelector(convention: AttributeConvention = defaultAttributeConvention): string
+    {
+        return this.getNames().map((name) => getModuleElementSelector(convention, name)).join(", ");
+    }
+
+    /**
+     * Returns the value of the module's data attribute of an element, or of an attribute suffixed to it,
+     * falling back to the attributes of the aliases.
+     *
+     * @param {HTMLElement} element - The module element.
+     * @param {string} [suffix] - The suffix of the attribute, e.g. "init".
+     * @param {AttributeConvention} [convention] - The attribute convention of the app.
+     * @returns {null | string} The attribute value, or null if the element has none of the attributes.
+     */
+    static getAttributeValue(
+        element: HTMLElement,
+        suffix?: string,
+        convention: AttributeConvention = defaultAttributeConvention
+    ): null | string
+    {
+        for (const name of this.getNames()) {
+            const value = element.getAttribute(getModuleMarkerAttributeName(convention, name, suffix));
+            if (value !== null) return value;
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the init strategy for the given element, taking the `data-module-<name>-init` attribute into account.
+     *
+     * @param {HTMLElement} element - The module element.
+     * @param {AttributeConvention} [convention] - The attribute convention of the app.
+     * @returns {InitStrategy}
+     */
+    static getInitStrategy(element: HTMLElement, convention: AttributeConvention = defaultAttributeConvention): InitStrategy
+    {
+        const strategy = this.getAttributeValue(element, "init", convention);
+
+        return strategy ? (strategy as InitStrategy) : this.initOn;
+    }
+
+    /**
+     * Returns the media query for the given element, taking a media query in the module attribute into account.
+     *
+     * @param {HTMLElement} element - The module element.
+     * @param {AttributeConvention} [convention] - The attribute convention of the app.
+     * @returns {null | string} The media query, or null if the module isn't bound to one.
+     */
+    static getMedia(element: HTMLElement, convention: AttributeConvention = defaultAttributeConvention): null | string
     {
-        return `[data-module-${this.getName()}]`;
+        const value = this.getAttributeValue(element, undefined, convention);
+
+        return value && mediaQueryPattern.test(value) ? value : this.media;
     }
 
-    private static getInstance<M extends Module>(element: HTMLElement): null | M
+    /**
+     * Returns the cached instance of the module associated with the given element.
+     *
+     * @template M - The type of the module.
+     * @param {HTMLElement} element - The module element.
+     * @param {ModuleInstanceCache} [cache] - The instance cache of the app.
+     * @returns {null | M} The module instance, or null if none was created yet.
+     * @private
+     */
+    private static getInstance<M extends Module<any, any, any>>(
+        element: HTMLElement,
+        cache: ModuleInstanceCache = defaultInstanceCache
+    ): null | M
     {
-        const name = this.getName();
-        return element.hasOwnProperty(name) ? (element as any)[name] : null;
+        return (cache.get(element)?.[this.getName()] as M) || null;
     }
 
     /**
@@ -413,35 +1658,47 @@ export class Module {
      * @template M - The type of module to be created or retrieved.
      * @param {HTMLElement} element - The HTML element to associate with the module instance.
      * @param {boolean} recreate - Optional. Indicates whether to recreate the module instance if it already exists. Defaults to false.
+     * @param {ModuleInstanceCache} [cache] - The instance cache of the app. Instances created outside of an app share
+     * a default cache.
      * @returns {M} The newly created or existing module instance associated with the given HTML element.
+     * @note An existing instance that isn't an instance of this class, e.g. of the class replaced by a hot update,
+     * is never reused.
      */
-    static create<M extends Module>(element: HTMLElement, recreate: boolean = false): M
+    static create<M extends Module<any, any, any>>(
+        element: HTMLElement,
+        recreate = false,
+        cache: ModuleInstanceCache = defaultInstanceCache
+    ): M
     {
-        const instance = this.getInstance<M>(element);
-        if (instance) {
+        const instance = this.getInstance<M>(element, cache);
+        if (instance && instance instanceof this) {
             if (recreate) {
-                instance.destroy();
+                instance.runLifecycle("destroy");
             } else {
                 return instance;
             }
         }
 
-        const name = this.getName();
+        const created = new this(element) as M;
 
-        (element as any)[name] = new this(element);
+        cache.set(element, { ...cache.get(element) || {}, [this.getName()]: created });
 
-        return (element as any)[name];
+        return created;
     }
 
     /**
      * Finds and returns the module element associated with the given HTML element within the module tree.
      *
      * @param {HTMLElement} element - The HTML element to search for within the module tree.
+     * @param {AttributeConvention} [convention] - The attribute convention of the app.
      * @returns {null | HTMLElement} The module element associated with the given HTML element if found, or null if not found.
      */
-    private static findModuleElementInTree(element: HTMLElement): null | HTMLElement
+    private static findModuleElementInTree(
+        element: HTMLElement,
+        convention: AttributeConvention = defaultAttributeConvention
+    ): null | HTMLElement
     {
-        const selector = this.getModuleSelector();
+        const selector = this.getModuleSelector(convention);
         const foundElement = findParent(element, selector);
 
         if (!foundElement) return null;
@@ -455,15 +1712,17 @@ export class Module {
      * Finds and returns the module associated with the given HTML element within the module tree.
      *
      * @param {HTMLElement} element - The HTML element to search for within the module tree.
+     * @param {App} [app] - The app the module belongs to. Without an app, only instances created outside of an app
+     * are found.
      * @returns {null | M} The module associated with the given HTML element if found, or null if not found.
      * @template M - The type of module to be returned.
      */
-    static findModuleInTree<M extends Module>(element: HTMLElement): null | M
+    static findModuleInTree<M extends Module<any, any, any>>(element: HTMLElement, app?: App): null | M
     {
-        const moduleElement = this.findModuleElementInTree(element);
+        const moduleElement = this.findModuleElementInTree(element, app ? app.attributes : defaultAttributeConvention);
 
         if (!moduleElement) return null;
 
-        return this.getInstance<M>(moduleElement);
+        return app ? app.getModule(moduleElement, this as unknown as ModuleClass<M>) : this.getInstance<M>(moduleElement);
     }
 }
@@ -0,0 +1,123 @@
+export type AttributeConvention = {
+    /**
+     * The prefix of the attribute marking module elements, followed by the module name, e.g. `data-module-` for
+     * `data-module-accordion`.
+     */
+    modulePrefix: string,
+
+    /**
+     * The prefix of the attribute namespace of a module, followed by the module name, e.g. `data-` for refs like
+     * `data-accordion="header"` and options like `data-accordion-multiple`.
+     */
+    prefix: string,
+
+    /**
+     * The separator between an attribute and its suffix, e.g. `-` for `data-accordion-multiple`
+     * or `data-module-accordion-init`.
+     */
+    separator: string,
+
+    /**
+     * The prefix of the class marking module elements, followed by the module name, e.g. `js-module-` for
+     * `class="js-module-accordion"`. If set, module elements are marked by classes instead of the module attribute.
+     */
+    classPrefix: null | string,
+}
+
+
+
+/**
+ * The default attribute convention: `data-module-<name>`, `data-<name>="<ref>"` and `data-<name>-<option>`.
+ */
+export const defaultAttributeConvention: Readonly<AttributeConvention> = {
+    modulePrefix: "data-module-",
+    prefix: "data-",
+    separator: "-",
+    classPrefix: null,
+};
+
+
+
+/**
+ * Completes a partial attribute convention with the defaults.
+ *
+ * @param {Partial<AttributeConvention>} [convention] - The partial attribute convention.
+ * @returns {AttributeConvention} The attribute convention.
+ */
+export function resolveAttributeConvention(convention?: Partial<AttributeConvention>): AttributeConvention
+{
+    return { ...defaultAttributeConvention, ...convention };
+}
+
+/**
+ * Returns the attribute marking the elements of a module, or an attribute suffixed to it.
+ *
+ * @param {AttributeConvention} convention - The attribute convention.
+ * @param {string} name - The name of the module.
+ * @param {string} [suffix] - The suffix of the attribute, e.g. "init".
+ * @returns {string} The attribute name, e.g. `data-module-map` or `data-module-map-init`.
+ */
+export function getModuleMarkerAttributeName(convention: AttributeConvention, name: string, suffix?: string): string
+{
+    const attribute = `${convention.modulePrefix}${name}`;
+
+    return suffix ? `${attribute}${convention.separator}${suffix}` : attribute;
+}
+
+/**
+ * Escapes the characters of an attribute name that aren't allowed in an attribute selector, e.g. `:` in
+ * `data-ui:menu`.
+ *
+ * @param {string} name - The attribute name.
+ * @returns {string} The escaped attribute name.
+ */
+export function escapeAttributeName(name: string): string
+{
+    return name.replace(/[^\w-]/g, "\\$&");
+}
+
+/**
+ * Returns the CSS selector of the elements of a module.
+ *
+ * @param {AttributeConvention} convention - The attribute convention.
+ * @param {string} name - The name of the module.
+ * @returns {string} The selector, e.g. `[data-module-map]` or `.js-module-map`.
+ */
+export function getModuleElementSelector(convention: AttributeConvention, name: string): string
+{
+    return convention.classPrefix !== null
+        ? `.${convention.classPrefix}${name}`
+        : `[${escapeAttributeName(getModuleMarkerAttributeName(convention, name))}]`;
+}
+
+/**
+ * Returns the module names, or aliases, an element is marked with, whether registered or not.
+ *
+ * @param {AttributeConvention} convention - The attribute convention.
+ * @param {Element} element - The element.
+ * @returns {string[]} The module names.
+ */
+export function getElementModuleNames(convention: AttributeConvention, element: Element): string[]
+{
+    const names: string[] = [];
+
+    if (convention.classPrefix !== null) {
+        const classList = element.classList;
+
+        for (let i = 0; i < classList.length; i++) {
+            classList[i].startsWith(convention.classPrefix) && names.push(classList[i].slice(convention.classPrefix.length));
+        }
+
+        return names;
+    }
+
+    const attributes = element.attributes;
+
+    for (let i = 0; i < attributes.length; i++) {
+        const attribute = attributes[i].name;
+
+        attribute.startsWith(convention.modulePrefix) && names.push(attribute.slice(convention.modulePrefix.length));
+    }
+
+    return names;
+}
@@ -0,0 +1,53 @@
+import {App, ModuleClass} from "./App";
+import {Module} from "./Module";
+
+
+
+/**
+ * The part of the `import.meta.hot` API of Vite and Rollup HMR plugins used by `acceptHotModules()`.
+ */
+export type HotContext = {
+    accept(callback: (exports: undefined | Record<string, unknown>) => void): void,
+    invalidate?(): void,
+}
+
+
+
+/**
+ * Accepts hot updates of the file the module classes are declared in and replaces them in the app with their
+ * new versions, instead of reloading the page. Falls back to a reload if the file doesn't export one of the
+ * classes anymore.
+ *
+ * @example import.meta.hot && acceptHotModules(import.meta.hot, { Accordion });
+ *
+ * @param {HotContext} hot - The `import.meta.hot` object of the file.
+ * @param {Record<string, ModuleClass>} modules - The module classes exported by the file, keyed by their export name.
+ * @param {App} [app] - The app to replace the classes in. Defaults to `App.instance` at the time of the update.
+ */
+export function acceptHotModules(hot: HotContext, modules: Record<string, ModuleClass>, app?: App): void
+{
+    hot.accept((exports) => {
+        const target = app || App.instance;
+        const replacements = Object.entries(modules).map(([key, module]) => [module, exports?.[key]] as const);
+
+        if (!target || replacements.some(([, replacement]) => !isModuleClass(replacement))) {
+            hot.invalidate?.();
+            return;
+        }
+
+        for (const [module, replacement] of replacements) {
+            target.replaceModule(module, replacement as ModuleClass);
+        }
+    });
+}
+
+/**
+ * Checks if a value is a class extending `Module`.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a module class.
+ */
+function isModuleClass(value: unknown): value is ModuleClass
+{
+    return typeof value === "function" && value.prototype instanceof Module;
+}
@@ -1,3 +1,41 @@
 export {App} from "./App";
+export type {
+    AppOptions,
+    ModuleClass,
+    ModuleDefinition,
+    ModuleErrorContext,
+    ModuleErrorHandler,
+    ModuleErrorPhase,
+    ModuleLoader,
+    RetryPolicy,
+} from "./App";
+export {
+    defaultAttributeConvention,
+    escapeAttributeName,
+    getElementModuleNames,
+    getModuleElementSelector,
+    getModuleMarkerAttributeName,
+    resolveAttributeConvention,
+} from "./attributes";
+export type {AttributeConvention} from "./attributes";
+export {EventDelegator} from "./EventDelegator";
+export {EventEmitter} from "./EventEmitter";
+export type {EventHandler, EventMap} from "./EventEmitter";
+export {acceptHotModules} from "./hot";
+export type {HotContext} from "./hot";
 export {Module} from "./Module";
+export {defineOptions} from "./options";
+export type {ModuleOptions, OptionDefinition, OptionsSchema} from "./options";
+export {defineRefs, optional} from "./refs";
+export type {ElementType, ModuleRefs, OptionalRefDefinition, RefDefinition, RefsSchema} from "./refs";
+export type {AppPlugin, PluginContext} from "./plugins";
+export {createServiceKey, ServiceContainer} from "./services";
+export type {
+    ServiceContext,
+    ServiceFactory,
+    ServiceKey,
+    ServiceProvider,
+    ServiceScope,
+    ServiceToken,
+} from "./services";
 export * from "./utils";
@@ -0,0 +1,97 @@
+export type OptionDefinition =
+    | { type: "string", default?: string, required?: boolean }
+    | { type: "number", default?: number, required?: boolean }
+    | { type: "boolean", default?: boolean, required?: boolean }
+    | { type: "json", default?: unknown, required?: boolean }
+    | { type: "enum", values: readonly string[], default?: string, required?: boolean };
+
+export type OptionsSchema = Record<string, OptionDefinition>;
+
+export type OptionValue<D extends OptionDefinition> =
+    D extends { type: "string" } ? string :
+    D extends { type: "number" } ? number :
+    D extends { type: "boolean" } ? boolean :
+    D extends { type: "enum", values: readonly (infer V)[] } ? V :
+    D extends { type: "json", default: infer T } ? T :
+    unknown;
+
+export type ModuleOptions<S extends OptionsSchema> = {
+    [K in keyof S]: S[K] extends { default: unknown } | { required: true }
+        ? OptionValue<S[K]>
+        : OptionValue<S[K]> | undefined
+};
+
+
+
+/**
+ * Returns the given options schema unchanged. Use it to keep the literal types of the schema,
+ * so the options type of a module can be inferred from it.
+ *
+ * @template S - The type of the schema.
+ * @param {S} schema - The options schema.
+ * @returns {S} The options schema.
+ */
+export function defineOptions<const S extends OptionsSchema>(schema: S): S
+{
+    return schema;
+}
+
+/**
+ * Parses the raw attribute value of an option.
+ *
+ * @param {OptionDefinition} definition - The definition of the option.
+ * @param {string} value - The raw attribute value.
+ * @returns {unknown} The parsed value.
+ * @throws {TypeError} If the value doesn't match the type of the option.
+ */
+export function parseOption(definition: OptionDefinition, value: string): unknown
+{
+    switch (definition.type) {
+    case "number": {
+        const number = Number(value);
+
+        if (value.trim() === "" || Number.isNaN(number)) {
+            throw new TypeError("expected a number");
+        }
+
+        return number;
+    }
+    case "boolean":
+        if (value === "" || value === "true") return true;
+        if (value === "false") return false;
+
+        throw new TypeError("expected \"true\", \"false\" or an empty value");
+    case "json":
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            throw new TypeError(`expected valid JSON (${(error as Error).message})`);
+        }
+    case "enum":
+        if (!definition.values.includes(value)) {
+            throw new TypeError(`expected one of ${definition.values.map((v) => `"${v}"`).join(", ")}`);
+        }
+
+        return value;
+    default:
+        return value;
+    }
+}
+
+/**
+ * Serializes an option value to its attribute value.
+ *
+ * @param {OptionDefinition} definition - The definition of the option.
+ * @param {unknown} value - The option value.
+ * @returns {string | null} The attribute value, or null if the attribute should be removed.
+ */
+export function serializeOption(definition: OptionDefinition, value: unknown): string | null
+{
+    if (value === null || value === undefined) return null;
+
+    if (definition.type === "json") {
+        return JSON.stringify(value);
+    }
+
+    return String(value);
+}
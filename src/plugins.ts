@@ -0,0 +1,124 @@
+import type {App, ModuleClass, ModuleDefinition, ModuleErrorContext} from "./App";
+import type {Module} from "./Module";
+import {MaybePromise, whenDone} from "./utils";
+
+
+
+export type PluginContext = {
+    app: App,
+    module: ModuleClass,
+    name: string,
+    element: HTMLElement,
+    instance: null | Module<any, any, any>,
+}
+
+export type AppPlugin = {
+    name?: string,
+
+    /**
+     * Called for every module class or module loader registered in the app, including the ones registered
+     * before the plugin was added.
+     */
+    onRegister?(module: ModuleDefinition, app: App): void,
+
+    /**
+     * Wraps the creation of a module instance. Return false without calling `next()` to prevent the instance
+     * from being created.
+     */
+    beforeCreate?(context: PluginContext, next: () => void): void | boolean,
+
+    /**
+     * Wraps the `init` phase of a module instance, code after `next()` runs once the module is initialized.
+     */
+    afterInit?(context: PluginContext, next: () => MaybePromise): MaybePromise,
+
+    /**
+     * Wraps the `destroy` phase of a module instance, code before `next()` runs before the module is destroyed.
+     */
+    beforeDestroy?(context: PluginContext, next: () => MaybePromise): MaybePromise,
+
+    /**
+     * Called with the errors routed to `app.reportError()`.
+     */
+    onError?(error: unknown, context: ModuleErrorContext): void,
+}
+
+
+
+/**
+ * Runs the `beforeCreate` hooks of the plugins in registration order, each wrapping the following ones and the
+ * creation itself. A hook that neither calls `next()` nor returns false lets the following ones run after it.
+ *
+ * @template T - The type of the instance.
+ * @param {AppPlugin[]} plugins - The plugins of the app.
+ * @param {PluginContext} context - The module class and element of the instance to create.
+ * @param {() => T} create - The function creating the instance.
+ * @returns {null | T} The instance, or null if a plugin prevented the creation.
+ */
+export function runCreateHooks<T>(plugins: AppPlugin[], context: PluginContext, create: () => T): null | T
+{
+    const hooked = plugins.filter((plugin) => plugin.beforeCreate);
+
+    const dispatch = (index: number): null | T => {
+        if (index === hooked.length) return create();
+
+        let called = false;
+        let result: null | T = null;
+
+        const next = () => {
+            if (called) return;
+
+            called = true;
+            result = dispatch(index + 1);
+        };
+
+        if (hooked[index].beforeCreate!(context, next) === false && !called) return null;
+
+        next();
+
+        return result;
+    };
+
+    return dispatch(0);
+}
+
+/**
+ * Runs the `afterInit` or `beforeDestroy` hooks of the plugins in registration order, each wrapping the following
+ * ones and the lifecycle phase itself. A hook that doesn't call `next()` lets the following ones run once it has
+ * returned or its promise has resolved.
+ *
+ * @param {AppPlugin[]} plugins - The plugins of the app.
+ * @param {"afterInit" | "beforeDestroy"} hook - The hook to run.
+ * @param {PluginContext} context - The module instance and its class and element.
+ * @param {() => MaybePromise} run - The function running the lifecycle phase.
+ * @returns {MaybePromise} A promise if a hook or the phase is asynchronous, otherwise undefined.
+ */
+export function runLifecycleHooks(
+    plugins: AppPlugin[],
+    hook: "afterInit" | "beforeDestroy",
+    context: PluginContext,
+    run: () => MaybePromise
+): MaybePromise
+{
+    const hooked = plugins.filter((plugin) => plugin[hook]);
+
+    const dispatch = (index: number): MaybePromise => {
+        if (index === hooked.length) return run();
+
+        let called = false;
+        let result: MaybePromise;
+
+        const next = () => {
+            if (!called) {
+                called = true;
+                result = dispatch(index + 1);
+            }
+
+            return result;
+        };
+
+        return whenDone(hooked[index][hook]!(context, next), next);
+    };
+
+    return dispatch(0);
+}
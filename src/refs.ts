@@ -0,0 +1,75 @@
+export type ElementType<E extends Element = Element> = abstract new (...args: any[]) => E;
+export type OptionalRefDefinition<E extends Element = Element> = { type: ElementType<E>, optional: true };
+
+export type RefDefinition =
+    | ElementType
+    | readonly ElementType[]
+    | OptionalRefDefinition;
+
+export type RefsSchema = Record<string, RefDefinition>;
+
+export type RefValue<D extends RefDefinition> =
+    D extends readonly ElementType<infer E>[] ? E[] :
+    D extends OptionalRefDefinition<infer E> ? E | null :
+    D extends ElementType<infer E> ? E :
+    never;
+
+export type ModuleRefs<S extends RefsSchema> = {
+    [K in keyof S]: RefValue<S[K]>
+};
+
+
+
+/**
+ * Returns the given refs schema unchanged. Use it to keep the literal types of the schema,
+ * so the refs type of a module can be inferred from it.
+ *
+ * @template S - The type of the schema.
+ * @param {S} schema - The refs schema.
+ * @returns {S} The refs schema.
+ */
+export function defineRefs<const S extends RefsSchema>(schema: S): S
+{
+    return schema;
+}
+
+/**
+ * Declares a ref that may be missing, which is null instead of throwing an error.
+ *
+ * @template E - The type of the element.
+ * @param {ElementType<E>} type - The element class the ref must be an instance of.
+ * @returns {OptionalRefDefinition<E>} The ref definition.
+ */
+export function optional<E extends Element>(type: ElementType<E>): OptionalRefDefinition<E>
+{
+    return { type, optional: true };
+}
+
+/**
+ * Resolves the value of a ref from the elements matching it.
+ *
+ * @param {RefDefinition} definition - The definition of the ref.
+ * @param {Element[]} elements - The elements matching the ref, in DOM order.
+ * @returns {Element | Element[] | null} An array for array refs, otherwise the first element or null.
+ * @throws {TypeError} If an element isn't an instance of the declared type or a required ref is missing.
+ */
+export function resolveRef(definition: RefDefinition, elements: Element[]): Element | Element[] | null
+{
+    const isArray = Array.isArray(definition);
+    const isOptional = !isArray && "optional" in definition;
+    const type = (isArray ? definition[0] : isOptional ? definition.type : definition) as ElementType;
+
+    const invalid = elements.find((element) => !(element instanceof type));
+
+    if (invalid) {
+        throw new TypeError(`expected ${type.name}, but found <${invalid.tagName.toLowerCase()}>`);
+    }
+
+    if (isArray) return elements;
+
+    if (!elements.length && !isOptional) {
+        throw new TypeError(`expected ${type.name}, but found none`);
+    }
+
+    return elements[0] || null;
+}
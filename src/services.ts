@@ -0,0 +1,308 @@
+import type {App} from "./App";
+import type {Module} from "./Module";
+import {MaybePromise, whenDone} from "./utils";
+
+
+
+export type ServiceToken<T> = symbol & { readonly __service?: T };
+export type ServiceKey<T = any> = string | ServiceToken<T> | (abstract new (...args: any[]) => T);
+export type ServiceScope = "singleton" | "module";
+
+export type ServiceContext = {
+    app: App,
+    module: null | Module<any, any, any>,
+    inject<T>(key: ServiceKey<T>): T,
+}
+export type ServiceFactory<T = unknown> = (context: ServiceContext) => T;
+
+export type ServiceProvider<T = any> = {
+    key: ServiceKey<T>,
+    factory: ServiceFactory<T>,
+    scope?: ServiceScope,
+    within?: Element,
+}
+
+
+
+/**
+ * Creates a typed key for a service that isn't identified by its class.
+ *
+ * @example const Scroll = createServiceKey<ScrollService>("scroll");
+ *
+ * @template T - The type of the service.
+ * @param {string} description - The description of the key, used in error messages.
+ * @returns {ServiceToken<T>} The key.
+ */
+export function createServiceKey<T>(description: string): ServiceToken<T>
+{
+    return Symbol(description) as ServiceToken<T>;
+}
+
+
+
+/**
+ * Provides the services of an app. Services are created lazily by the factory of their provider, either once per
+ * provider (`singleton`) or once per module instance injecting them (`module`). Providers registered `within` an
+ * element override the other providers of the same key for the modules inside that element.
+ *
+ * @class
+ */
+export class ServiceContainer {
+
+    /**
+     * The app the services belong to.
+     * @private
+     * @readonly
+     */
+    private readonly app: App;
+
+    /**
+     * The registered providers, keyed by service key, in the order they were registered.
+     * @private
+     * @readonly
+     */
+    private readonly providers: Map<ServiceKey, ServiceProvider[]>;
+
+    /**
+     * The created singleton services, keyed by provider.
+     * @private
+     */
+    private singletons: Map<ServiceProvider, unknown>;
+
+    /**
+     * The created module scoped services, keyed by module instance and provider.
+     * @private
+     * @readonly
+     */
+    private readonly scopedServices: WeakMap<Module<any, any, any>, Map<ServiceProvider, unknown>>;
+
+    /**
+     * The providers whose services are being created, to detect circular dependencies.
+     * @private
+     * @readonly
+     */
+    private readonly resolving: Set<ServiceProvider>;
+
+
+    /**
+     * Creates an instance of the ServiceContainer class.
+     *
+     * @constructor
+     * @param {App} app - The app the services belong to.
+     */
+    constructor(app: App)
+    {
+        this.app = app;
+        this.providers = new Map();
+        this.singletons = new Map();
+        this.scopedServices = new WeakMap();
+        this.resolving = new Set();
+    }
+
+
+
+    /**
+     * Registers a provider. A provider replaces a previous provider of the same key and element, whose singleton
+     * service is disposed.
+     *
+     * @param {ServiceProvider} provider - The provider.
+     * @returns {() => void} A function that removes the provider again and disposes its singleton service.
+     */
+    provide(provider: ServiceProvider): () => void
+    {
+        const providers = this.providers.get(provider.key) || [];
+        const replaced = providers.find((item) => item.within === provider.within);
+
+        replaced && this.release(replaced);
+        this.providers.set(provider.key, [...providers.filter((item) => item !== replaced), provider]);
+
+        return () => {
+            const remaining = this.providers.get(provider.key)?.filter((item) => item !== provider);
+
+            if (!remaining || remaining.length === this.providers.get(provider.key)?.length) return;
+
+            this.release(provider);
+            remaining.length ? this.providers.set(provider.key, remaining) : this.providers.delete(provider.key);
+        };
+    }
+
+    /**
+     * Checks if a service can be resolved for a module.
+     *
+     * @param {ServiceKey} key - The service key.
+     * @param {null | Module} [module] - The module injecting the service.
+     * @returns {boolean} True if a provider of the key applies to the module.
+     */
+    has(key: ServiceKey, module: null | Module<any, any, any> = null): boolean
+    {
+        return this.getProvider(key, module) !== null;
+    }
+
+    /**
+     * Returns the service of a key for a module, creating it if it doesn't exist yet.
+     *
+     * @template T - The type of the service.
+     * @param {ServiceKey<T>} key - The service key.
+     * @param {null | Module} [module] - The module injecting the service, or null outside of modules.
+     * @returns {T} The service.
+     * @throws {Error} If no provider applies, a module scoped service is resolved outside of a module or services
+     * depend on each other.
+     */
+    resolve<T>(key: ServiceKey<T>, module: null | Module<any, any, any> = null): T
+    {
+        const provider = this.getProvider(key, module);
+
+        if (!provider) {
+            throw new Error(`No provider for service "${getServiceName(key)}".`);
+        }
+
+        if (provider.scope !== "module") {
+            return this.getOrCreate(provider, this.singletons, null) as T;
+        }
+
+        if (!module) {
+            throw new Error(`Service "${getServiceName(key)}" is scoped to modules and can only be injected by a module.`);
+        }
+
+        let services = this.scopedServices.get(module);
+
+        if (!services) {
+            services = new Map();
+            this.scopedServices.set(module, services);
+        }
+
+        if (!services.has(provider)) {
+            const service = this.getOrCreate(provider, services, module);
+
+            module.addDisposable(() => {
+                services!.delete(provider);
+                disposeService(service);
+            });
+        }
+
+        return services.get(provider) as T;
+    }
+
+    /**
+     * Disposes all singleton services. They are created again when they are injected the next time, even before
+     * the current ones are disposed.
+     *
+     * @param {MaybePromise} [after] - A promise to wait for before disposing, e.g. of modules still being destroyed.
+     */
+    dispose(after?: MaybePromise): void
+    {
+        const singletons = this.singletons;
+
+        this.singletons = new Map();
+        whenDone(after, () => singletons.forEach(disposeService));
+    }
+
+
+
+    /**
+     * Returns the provider of a key that applies to a module: the one registered within the closest element
+     * containing the module's element, or the last one registered without an element.
+     *
+     * @param {ServiceKey} key - The service key.
+     * @param {null | Module} module - The module injecting the service.
+     * @returns {null | ServiceProvider} The provider, or null if none applies.
+     * @private
+     */
+    private getProvider(key: ServiceKey, module: null | Module<any, any, any>): null | ServiceProvider
+    {
+        const providers = this.providers.get(key) || [];
+        let closest: null | ServiceProvider = null;
+
+        for (const provider of providers) {
+            if (!module || !provider.within?.contains(module.el)) continue;
+
+            if (!closest || closest.within!.contains(provider.within)) {
+                closest = provider;
+            }
+        }
+
+        return closest || providers.filter((provider) => !provider.within).pop() || null;
+    }
+
+    /**
+     * Returns the service of a provider from a cache, creating it with the provider's factory if it isn't cached.
+     *
+     * @param {ServiceProvider} provider - The provider.
+     * @param {Map<ServiceProvider, unknown>} cache - The cache of the scope.
+     * @param {null | Module} module - The module the service is created for, or null for singletons.
+     * @returns {unknown} The service.
+     * @private
+     */
+    private getOrCreate(provider: ServiceProvider, cache: Map<ServiceProvider, unknown>, module: null | Module<any, any, any>): unknown
+    {
+        if (cache.has(provider)) return cache.get(provider);
+
+        if (this.resolving.has(provider)) {
+            throw new Error(`Service "${getServiceName(provider.key)}" depends on itself.`);
+        }
+
+        this.resolving.add(provider);
+
+        try {
+            const service = provider.factory({
+                app: this.app,
+                module,
+                inject: (key) => this.resolve(key, module),
+            });
+
+            cache.set(provider, service);
+
+            return service;
+        } finally {
+            this.resolving.delete(provider);
+        }
+    }
+
+    /**
+     * Disposes and forgets the singleton service of a provider.
+     *
+     * @param {ServiceProvider} provider - The provider.
+     * @private
+     */
+    private release(provider: ServiceProvider): void
+    {
+        if (!this.singletons.has(provider)) return;
+
+        const service = this.singletons.get(provider);
+
+        this.singletons.delete(provider);
+        disposeService(service);
+    }
+}
+
+
+
+/**
+ * Returns the name of a service key for error messages.
+ *
+ * @param {ServiceKey} key - The service key.
+ * @returns {string} The name.
+ */
+function getServiceName(key: ServiceKey): string
+{
+    if (typeof key === "string") return key;
+
+    return typeof key === "symbol" ? key.description || key.toString() : key.name;
+}
+
+/**
+ * Calls the `dispose()` method of a service, if it has one. Errors are logged, so the other services are
+ * disposed as well.
+ *
+ * @param {unknown} service - The service.
+ */
+function disposeService(service: unknown): void
+{
+    if (!service || typeof (service as { dispose?: unknown }).dispose !== "function") return;
+
+    try {
+        (service as { dispose: () => void }).dispose();
+    } catch (error) {
+        console.error("Failed to dispose a service.", error, service);
+    }
+}
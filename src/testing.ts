@@ -0,0 +1,332 @@
+import {App, ModuleClass, ModuleDefinition} from "./App";
+import {defaultAttributeConvention} from "./attributes";
+import {Module} from "./Module";
+import {serializeOption} from "./options";
+import {AppPlugin} from "./plugins";
+import {ServiceProvider} from "./services";
+import {isPromise, pascalToKebab} from "./utils";
+
+
+
+export type MountOptions<M extends Module<any, any, any>> = {
+    options?: Partial<M["options"]>,
+    services?: ServiceProvider[],
+    modules?: ModuleDefinition[],
+    delegate?: boolean,
+}
+
+export type MountedModule<M extends Module<any, any, any>> = {
+    instance: M,
+    element: HTMLElement,
+    root: HTMLElement,
+    app: App,
+    unmount(): Promise<void>,
+}
+
+export type LeakedListener = {
+    target: EventTarget,
+    type: string,
+    capture: boolean,
+}
+
+
+
+/**
+ * Promises of lifecycle phases of mounted modules that haven't settled yet.
+ */
+const pendingLifecycles: Set<Promise<unknown>> = new Set();
+
+/**
+ * The plugin tracking the asynchronous lifecycle phases of mounted modules for `flushLifecycle()`.
+ */
+const lifecyclePlugin: AppPlugin = {
+    name: "testing",
+    afterInit: (context, next) => trackLifecycle(next()),
+    beforeDestroy: (context, next) => trackLifecycle(next()),
+};
+
+const eventConstructors: [RegExp, string][] = [
+    [/^(click|dblclick|contextmenu|mouse\w+)$/, "MouseEvent"],
+    [/^pointer\w+$/, "PointerEvent"],
+    [/^key\w+$/, "KeyboardEvent"],
+    [/^(focus|blur|focusin|focusout)$/, "FocusEvent"],
+    [/^(input|beforeinput)$/, "InputEvent"],
+    [/^submit$/, "SubmitEvent"],
+    [/^wheel$/, "WheelEvent"],
+];
+
+
+
+/**
+ * Mounts a module for a test: renders the HTML into a container in the document, creates an app for the module
+ * and initializes it. Event delegation is enabled by default, so the event helpers exercise delegated listeners.
+ *
+ * @example const { instance, element } = await mount(Accordion, `<div data-module-accordion>...</div>`);
+ *
+ * @template M - The type of the module.
+ * @param {ModuleClass<M>} module - The module class.
+ * @param {string} [html] - The HTML of the module element. If it doesn't contain an element of the module,
+ * it is wrapped in one.
+ * @param {MountOptions<M>} [options] - The options of the module, set as attributes, the service providers of the
+ * app, e.g. fakes, additional modules, e.g. children, and whether to delegate events.
+ * @returns {Promise<MountedModule<M>>} The module instance, its element, the container and the app.
+ * @throws {Error} If the module failed to be created or initialized.
+ */
+export async function mount<M extends Module<any, any, any>>(
+    module: ModuleClass<M>,
+    html = "",
+    options: MountOptions<M> = {}
+): Promise<MountedModule<M>>
+{
+    const root = document.createElement("div");
+    const errors: unknown[] = [];
+
+    root.innerHTML = html;
+
+    let element = root.querySelector<HTMLElement>(module.getModuleSelector());
+
+    if (!element) {
+        element = document.createElement("div");
+        element.setAttribute(`${defaultAttributeConvention.modulePrefix}${module.getName()}`, "");
+        element.append(...Array.from(root.childNodes));
+        root.append(element);
+    }
+
+    for (const [name, value] of Object.entries(options.options || {})) {
+        const definition = module.options[name];
+
+        if (!definition) {
+            throw new Error(`Module "${module.getName()}" has no option "${name}".`);
+        }
+
+        const serialized = serializeOption(definition, value);
+
+        serialized !== null && element.setAttribute(
+            `${defaultAttributeConvention.prefix}${module.getName()}${defaultAttributeConvention.separator}${pascalToKebab(name)}`,
+            serialized
+        );
+    }
+
+    document.body.append(root);
+
+    const app = new App({
+        modules: [module, ...options.modules || []],
+        root,
+        delegate: options.delegate ?? true,
+        services: options.services,
+        plugins: [lifecyclePlugin],
+        onError: (error) => errors.push(error),
+    });
+
+    const mounted: MountedModule<M> = {
+        instance: null as unknown as M,
+        element,
+        root,
+        app,
+        unmount: async () => {
+            await app.dispose();
+            root.remove();
+        },
+    };
+
+    await app.init();
+
+    const instance = app.getModule(element, module);
+
+    if (errors.length || !instance) {
+        await mounted.unmount();
+
+        throw errors[0] || new Error(`Module "${module.getName()}" wasn't created.`);
+    }
+
+    mounted.instance = instance;
+
+    return mounted;
+}
+
+/**
+ * Waits until the asynchronous lifecycle phases of all mounted modules have finished, and for the animation
+ * frame in which DOM mutations and option changes are processed.
+ *
+ * @returns {Promise<void>}
+ */
+export async function flushLifecycle(): Promise<void>
+{
+    do {
+        await new Promise((resolve) => requestAnimationFrame(resolve));
+        await Promise.all(Array.from(pendingLifecycles));
+        await new Promise((resolve) => setTimeout(resolve));
+    } while (pendingLifecycles.size);
+}
+
+/**
+ * Dispatches an event of the matching type, e.g. a `KeyboardEvent` for `keydown`. Events bubble by default,
+ * so they reach the listeners delegated to the app's root.
+ *
+ * @param {EventTarget} target - The target of the event.
+ * @param {string} type - The event type.
+ * @param {EventInit} [init] - The options of the event, e.g. `{ key: "Escape" }`.
+ * @returns {Event} The dispatched event, e.g. to check `defaultPrevented`.
+ */
+export function fire(target: EventTarget, type: string, init: EventInit & Record<string, unknown> = {}): Event
+{
+    const name = eventConstructors.find(([pattern]) => pattern.test(type))?.[1];
+    const constructors = window as unknown as Record<string, undefined | (new (type: string, init: EventInit) => Event)>;
+    const EventConstructor = (name && constructors[name]) || (name === "PointerEvent" && constructors.MouseEvent) || Event;
+    const event = new EventConstructor(type, { bubbles: true, cancelable: true, composed: true, ...init });
+
+    target.dispatchEvent(event);
+
+    return event;
+}
+
+/**
+ * Clicks an element.
+ *
+ * @param {EventTarget} target - The element to click.
+ * @param {MouseEventInit} [init] - The options of the event.
+ * @returns {Event} The dispatched event.
+ */
+export function click(target: EventTarget, init?: MouseEventInit): Event
+{
+    return fire(target, "click", init as EventInit & Record<string, unknown>);
+}
+
+/**
+ * Focuses an element, dispatching `focus` and `focusin` even if the element isn't focusable.
+ *
+ * @param {HTMLElement} target - The element to focus.
+ */
+export function focus(target: HTMLElement): void
+{
+    target.focus();
+
+    if (document.activeElement === target) return;
+
+    fire(target, "focus", { bubbles: false });
+    fire(target, "focusin");
+}
+
+/**
+ * Blurs an element, dispatching `blur` and `focusout` even if the element isn't focusable.
+ *
+ * @param {HTMLElement} target - The element to blur.
+ */
+export function blur(target: HTMLElement): void
+{
+    const focused = document.activeElement === target;
+
+    target.blur();
+
+    if (focused) return;
+
+    fire(target, "blur", { bubbles: false });
+    fire(target, "focusout");
+}
+
+/**
+ * Moves the pointer onto an element, dispatching `mouseover` and `mouseenter` as well as their pointer events.
+ *
+ * @param {HTMLElement} target - The element to hover.
+ */
+export function hover(target: HTMLElement): void
+{
+    fire(target, "pointerover");
+    fire(target, "mouseover");
+    fire(target, "pointerenter", { bubbles: false });
+    fire(target, "mouseenter", { bubbles: false });
+}
+
+/**
+ * Moves the pointer off an element, dispatching `mouseout` and `mouseleave` as well as their pointer events.
+ *
+ * @param {HTMLElement} target - The element to leave.
+ */
+export function unhover(target: HTMLElement): void
+{
+    fire(target, "pointerout");
+    fire(target, "mouseout");
+    fire(target, "pointerleave", { bubbles: false });
+    fire(target, "mouseleave", { bubbles: false });
+}
+
+/**
+ * Returns the event listeners the module added with `addEventListener()`, `addFilteredEventListener()` or its
+ * declarative events that are still attached: the ones left in the module's listener registry, e.g. because an
+ * overridden `destroy()` didn't call `super.destroy()`, and the ones still delegated to the module's element.
+ *
+ * @param {MountedModule} mounted - The mounted module.
+ * @returns {LeakedListener[]} The listeners.
+ */
+export function getLeakedListeners(mounted: MountedModule<any>): LeakedListener[]
+{
+    const registered: LeakedListener[] = mounted.instance.getEventListeners();
+    const unmatched = [...registered];
+    const delegated = mounted.app.delegator?.getListeners(mounted.element) || [];
+
+    // Delegated listeners are part of the registry as well, only the ones missing from it are added.
+    const orphaned = delegated.filter(({ type, capture }) => {
+        const index = unmatched.findIndex((entry) => {
+            return entry.target === mounted.element && entry.type === type && entry.capture === capture;
+        });
+
+        index !== -1 && unmatched.splice(index, 1);
+
+        return index === -1;
+    });
+
+    return [...registered, ...orphaned.map(({ type, capture }) => ({ target: mounted.element, type, capture }))];
+}
+
+/**
+ * Asserts that the event listeners the module added were removed again, e.g. after `await app.destroy()` or
+ * `await unmount()`.
+ *
+ * @param {MountedModule} mounted - The mounted module.
+ * @throws {Error} If a listener is still attached.
+ */
+export function assertNoLeaks(mounted: MountedModule<any>): void
+{
+    const leaked = getLeakedListeners(mounted);
+
+    if (!leaked.length) return;
+
+    const descriptions = leaked.map(({ target, type }) => `"${type}" on ${describeTarget(target)}`);
+
+    throw new Error(`Module "${mounted.instance.name}" leaked ${leaked.length} event listener(s): ${descriptions.join(", ")}.`);
+}
+
+
+
+/**
+ * Tracks a lifecycle phase until it has settled, if it's asynchronous.
+ *
+ * @param {unknown} result - The result of the phase.
+ * @returns {unknown} The result.
+ */
+function trackLifecycle<T>(result: T): T
+{
+    if (!isPromise(result)) return result;
+
+    const settled = result.then(() => undefined, () => undefined);
+
+    pendingLifecycles.add(settled);
+    settled.then(() => pendingLifecycles.delete(settled));
+
+    return result;
+}
+
+/**
+ * Describes the target of a listener for error messages, e.g. `<button data-accordion="header">`.
+ *
+ * @param {EventTarget} target - The target.
+ * @returns {string}
+ */
+function describeTarget(target: EventTarget): string
+{
+    if (!(target instanceof Element)) return target === window ? "window" : target === document ? "document" : String(target);
+
+    const attributes = Array.from(target.attributes, ({ name, value }) => value ? `${name}="${value}"` : name);
+
+    return `<${[target.tagName.toLowerCase(), ...attributes].join(" ")}>`;
+}
@@ -1,3 +1,13 @@
+export type MaybePromise<T = void> = T | Promise<T>;
+
+export type EventBinding = {
+    type: string,
+    modifiers: string[],
+    method: string,
+}
+
+
+
 /**
  * Converts a string from PascalCase to kebab-case.
  *
@@ -24,12 +34,10 @@ export function bind(thisArg: object, ...functionNames: string[]): void
 {
     if (!functionNames?.length) {
         functionNames = getObjectProperties(thisArg, (o, prop) => {
-            // Exclude Object.prototype properties and only include functions
-            try {
-                return !Object.prototype.hasOwnProperty(prop) && typeof (thisArg as any)[prop] === "function";
-            } catch (error) {
-                return false;
-            }
+            // Exclude Object.prototype properties and only include functions, without invoking getters
+            const descriptor = Object.getOwnPropertyDescriptor(o, prop);
+
+            return !Object.prototype.hasOwnProperty(prop) && typeof descriptor?.value === "function";
         });
     }
 
@@ -127,7 +135,7 @@ export function getEventFilteredEventListener(element: ParentNode, listener: Eve
         if (!(event.target instanceof Element)) return;
 
         if (element === event.currentTarget || hasParent(element, event.target))   {
-            Object.defineProperty(event, "currentTarget", { value: element });
+            Object.defineProperty(event, "currentTarget", { value: element, configurable: true });
             listener(event);
         }
     };
@@ -138,23 +146,190 @@ export function getEventFilteredEventListener(element: ParentNode, listener: Eve
  *
  * @param {string} selector - The CSS selector to match against elements.
  * @param {EventListener} listener - The event listener function to be called when the event occurs.
+ * @param {(element: HTMLElement) => boolean} [filter] - An additional check for the matched element.
  * @returns {EventListener} The filtered event listener function.
  */
-export function getSelectorFilteredEventListener(selector: string, listener: EventListener): EventListener
+export function getSelectorFilteredEventListener(
+    selector: string,
+    listener: EventListener,
+    filter?: (element: HTMLElement) => boolean
+): EventListener
 {
     return (event) => {
         if (!(event.target instanceof Element)) return;
 
         const $parent = findParent(event.target, selector);
-        if (!$parent) return;
+        if (!$parent || (filter && !filter($parent))) return;
 
-        Object.defineProperty(event, "currentTarget", { value: $parent });
+        Object.defineProperty(event, "currentTarget", { value: $parent, configurable: true });
 
         return listener(event);
     };
 }
 
 
+/**
+ * Parses event bindings of the form "type[.modifier...]:method", separated by whitespace,
+ * e.g. "click:open keydown.escape:close".
+ *
+ * @param {string} value - The event bindings.
+ * @returns {EventBinding[]} The parsed event bindings. Malformed bindings are skipped.
+ */
+export function parseEventBindings(value: string): EventBinding[]
+{
+    return value.trim().split(/\s+/).reduce<EventBinding[]>((bindings, binding) => {
+        const [event, method] = binding.split(":");
+        if (!event || !method) return bindings;
+
+        const [type, ...modifiers] = event.split(".");
+        bindings.push({ type, modifiers, method });
+
+        return bindings;
+    }, []);
+}
+
+const keyAliases: Record<string, string> = {
+    esc: "escape",
+    space: " ",
+    up: "arrowup",
+    down: "arrowdown",
+    left: "arrowleft",
+    right: "arrowright",
+};
+
+/**
+ * Checks if an event matches the modifiers of an event binding and applies the "prevent" and "stop" modifiers.
+ * Other modifiers are compared to the pressed key of keyboard events, e.g. "escape", "enter" or "space".
+ *
+ * @param {Event} event - The event.
+ * @param {string[]} modifiers - The modifiers of the event binding.
+ * @returns {boolean} True if the event matches all key modifiers.
+ */
+export function applyEventModifiers(event: Event, modifiers: string[]): boolean
+{
+    const keys = modifiers.filter((modifier) => modifier !== "prevent" && modifier !== "stop");
+
+    if (keys.length) {
+        const key = (event as KeyboardEvent).key?.toLowerCase();
+
+        if (!key || !keys.some((modifier) => (keyAliases[modifier] || modifier) === key)) {
+            return false;
+        }
+    }
+
+    modifiers.includes("prevent") && event.preventDefault();
+    modifiers.includes("stop") && event.stopPropagation();
+
+    return true;
+}
+
+/**
+ * Checks if a value is a promise or another thenable.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is thenable.
+ */
+export function isPromise<T = unknown>(value: unknown): value is Promise<T>
+{
+    return typeof (value as any)?.then === "function";
+}
+
+/**
+ * Calls the callback once the value is settled: synchronously for plain values, after resolution for promises.
+ * This keeps lifecycles synchronous as long as no hook returns a promise.
+ *
+ * @param {MaybePromise} value - The value or promise to wait for.
+ * @param {() => MaybePromise} callback - The function to call afterwards.
+ * @returns {MaybePromise} The result of the callback, or a promise of it.
+ */
+export function whenDone(value: MaybePromise<unknown>, callback: () => MaybePromise): MaybePromise
+{
+    return isPromise(value) ? value.then(callback) : callback();
+}
+
+/**
+ * Waits for all values that are promises. Returns undefined if none of the values is a promise.
+ *
+ * @param {MaybePromise[]} values - The values or promises to wait for.
+ * @returns {MaybePromise} A promise if any value is a promise, otherwise undefined.
+ */
+export function whenAll(values: MaybePromise<unknown>[]): MaybePromise
+{
+    const promises = values.filter(isPromise);
+
+    return promises.length ? Promise.all(promises).then(() => undefined) : undefined;
+}
+
+/**
+ * Yields to the main thread, so the browser can handle input and render before the returned promise resolves.
+ * Uses `scheduler.yield()` where available and falls back to a `MessageChannel` task.
+ *
+ * @returns {Promise<void>} A promise that resolves in a new task.
+ */
+export function yieldToMain(): Promise<void>
+{
+    const scheduler = (globalThis as any).scheduler;
+
+    if (typeof scheduler?.yield === "function") {
+        return scheduler.yield();
+    }
+
+    return new Promise((resolve) => {
+        const channel = new MessageChannel();
+
+        channel.port1.onmessage = () => {
+            channel.port1.close();
+            resolve();
+        };
+        channel.port2.postMessage(null);
+    });
+}
+
+/**
+ * Calls the callback for each item and yields to the main thread whenever the calls took longer than the budget.
+ * Runs synchronously as long as all calls fit into the first budget.
+ *
+ * @param {T[]} items - The items.
+ * @param {(item: T) => void} callback - The function to call for each item.
+ * @param {number} budget - The time in milliseconds to work before yielding, `Infinity` never yields.
+ * @returns {MaybePromise} A promise if the work was split into multiple tasks, otherwise undefined.
+ */
+export function runInChunks<T>(items: T[], callback: (item: T) => void, budget: number): MaybePromise
+{
+    let index = 0;
+
+    const run = (): MaybePromise => {
+        const deadline = performance.now() + budget;
+
+        while (index < items.length) {
+            callback(items[index++]);
+
+            if (index < items.length && performance.now() >= deadline) {
+                return yieldToMain().then(run);
+            }
+        }
+    };
+
+    return run();
+}
+
+
+/**
+ * Compares the position of two nodes in the document, usable as a sort function to sort nodes in DOM order.
+ * Ancestors are sorted before their descendants.
+ *
+ * @param {Node} a - The first node.
+ * @param {Node} b - The second node.
+ * @returns {number} A negative number if `a` precedes `b`, a positive number if it follows `b`, otherwise 0.
+ */
+export function compareDocumentPosition(a: Node, b: Node): number
+{
+    if (a === b) return 0;
+
+    return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+}
+
+
 /**
  * Checks if the first character of a string is uppercase.
  *
@@ -165,3 +340,134 @@ export function isFirstCharUppercase(string: string): boolean
 {
     return /^[A-Z]/.test(string);
 }
+
+
+/**
+ * Calls the callback once the element intersects with the viewport.
+ *
+ * @param {Element} element - The element to observe.
+ * @param {() => void} callback - The function to call once the element is visible.
+ * @param {string} rootMargin - The margin around the viewport, e.g. "200px". Defaults to "0px".
+ * @returns {() => void} A function that cancels the pending callback.
+ */
+export function onVisible(element: Element, callback: () => void, rootMargin = "0px"): () => void
+{
+    const observer = new IntersectionObserver((entries) => {
+        if (!entries.some((entry) => entry.isIntersecting)) return;
+
+        observer.disconnect();
+        callback();
+    }, { rootMargin });
+
+    observer.observe(element);
+
+    return () => observer.disconnect();
+}
+
+/**
+ * Calls the callback once the browser is idle, or after the timeout at the latest.
+ * Falls back to a timeout of the next task in browsers without `requestIdleCallback`.
+ *
+ * @param {() => void} callback - The function to call once the browser is idle.
+ * @param {number} timeout - The maximum time in milliseconds to wait. Defaults to 2000.
+ * @returns {() => void} A function that cancels the pending callback.
+ */
+export function onIdle(callback: () => void, timeout = 2000): () => void
+{
+    if (typeof requestIdleCallback === "function") {
+        const id = requestIdleCallback(() => callback(), { timeout });
+        return () => cancelIdleCallback(id);
+    }
+
+    const id = setTimeout(callback, 1);
+    return () => clearTimeout(id);
+}
+
+/**
+ * Calls the callback on the first pointerdown, focus or keydown event inside the element.
+ *
+ * @param {Element} element - The element to listen on.
+ * @param {() => void} callback - The function to call on the first interaction.
+ * @returns {() => void} A function that cancels the pending callback.
+ */
+export function onInteraction(element: Element, callback: () => void): () => void
+{
+    const types = ["pointerdown", "focusin", "keydown"];
+    const cancel = () => types.forEach((type) => element.removeEventListener(type, listener, true));
+    const listener = () => {
+        cancel();
+        callback();
+    };
+
+    types.forEach((type) => element.addEventListener(type, listener, true));
+
+    return cancel;
+}
+
+/**
+ * Calls the callback once the media query matches, immediately if it already does.
+ *
+ * @param {string} query - The media query, e.g. "(min-width: 1024px)".
+ * @param {() => void} callback - The function to call once the media query matches.
+ * @returns {() => void} A function that cancels the pending callback.
+ */
+export function onMediaMatch(query: string, callback: () => void): () => void
+{
+    const mediaQueryList = matchMedia(query);
+    const cancel = () => mediaQueryList.removeEventListener("change", listener);
+    const listener = (event: MediaQueryListEvent) => {
+        if (!event.matches) return;
+
+        cancel();
+        callback();
+    };
+
+    if (mediaQueryList.matches) {
+        callback();
+        return () => undefined;
+    }
+
+    mediaQueryList.addEventListener("change", listener);
+
+    return cancel;
+}
+
+const mediaQueryWatchers = new Map<string, {
+    mediaQueryList: MediaQueryList,
+    listener: (event: MediaQueryListEvent) => void,
+    callbacks: Set<(matches: boolean) => void>,
+}>();
+
+/**
+ * Calls the callback with the current state of a media query right away and again whenever it changes.
+ * All callbacks of the same query share one `MediaQueryList` and listener.
+ *
+ * @param {string} query - The media query, e.g. "(min-width: 1024px)".
+ * @param {(matches: boolean) => void} callback - The function to call with the state of the media query.
+ * @returns {() => void} A function that stops watching the media query.
+ */
+export function watchMediaQuery(query: string, callback: (matches: boolean) => void): () => void
+{
+    let watcher = mediaQueryWatchers.get(query);
+
+    if (!watcher) {
+        const callbacks = new Set<(matches: boolean) => void>();
+        const listener = (event: MediaQueryListEvent) => [...callbacks].forEach((item) => item(event.matches));
+
+        watcher = { mediaQueryList: matchMedia(query), listener, callbacks };
+        watcher.mediaQueryList.addEventListener("change", listener);
+        mediaQueryWatchers.set(query, watcher);
+    }
+
+    const { mediaQueryList, listener, callbacks } = watcher;
+
+    callbacks.add(callback);
+    callback(mediaQueryList.matches);
+
+    return () => {
+        if (!callbacks.delete(callback) || callbacks.size) return;
+
+        mediaQueryList.removeEventListener("change", listener);
+        mediaQueryWatchers.delete(query);
+    };
+}
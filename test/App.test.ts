@@ -0,0 +1,775 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {App, AppOptions, AppPlugin, Module} from "../src";
+import {flushLifecycle} from "../src/testing";
+
+
+
+const apps: App[] = [];
+
+/**
+ * Creates an app on a new root element with the given markup. The app is destroyed after the test.
+ */
+function createApp(html: string, options: AppOptions): App
+{
+    const root = document.createElement("div");
+
+    root.innerHTML = html;
+    document.body.append(root);
+
+    const app = new App({ root, ...options });
+    apps.push(app);
+
+    return app;
+}
+
+/**
+ * Replaces `matchMedia` by a stub that matches the given queries. Returns a function that changes whether a query
+ * matches and notifies its listeners.
+ */
+function stubMatchMedia(matching: string[] = []): (query: string, matches: boolean) => void
+{
+    const mediaQueryLists = new Map<string, EventTarget & { matches: boolean }>();
+
+    vi.stubGlobal("matchMedia", vi.fn((query: string) => {
+        const mediaQueryList = Object.assign(new EventTarget(), { matches: matching.includes(query) });
+        mediaQueryLists.set(query, mediaQueryList);
+
+        return mediaQueryList;
+    }));
+
+    return (query, matches) => {
+        const mediaQueryList = mediaQueryLists.get(query)!;
+
+        mediaQueryList.matches = matches;
+        mediaQueryList.dispatchEvent(Object.assign(new Event("change"), { matches }));
+    };
+}
+
+/**
+ * Replaces `IntersectionObserver` by a stub. Returns a function that reports an element as visible to the observers
+ * observing it.
+ */
+function stubIntersectionObserver(): (element: Element) => void
+{
+    const observers: IntersectionObserverStub[] = [];
+
+    class IntersectionObserverStub {
+        elements = new Set<Element>();
+
+        constructor(public callback: IntersectionObserverCallback) {
+            observers.push(this);
+        }
+
+        observe(element: Element) { this.elements.add(element); }
+        disconnect() { this.elements.clear(); }
+    }
+
+    vi.stubGlobal("IntersectionObserver", IntersectionObserverStub);
+
+    return (element) => observers
+        .filter((observer) => observer.elements.has(element))
+        .forEach((observer) => observer.callback([{ target: element, isIntersecting: true } as any], observer as any));
+}
+
+afterEach(async () => {
+    await Promise.all(apps.splice(0).map((app) => app.dispose()));
+    document.body.innerHTML = "";
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+
+
+class Accordion extends Module {}
+class Tabs extends Module {}
+
+
+
+describe("init and destroy", () => {
+    it("creates an instance for every module element", async () => {
+        const app = createApp(`
+            <div data-module-accordion="faq"></div>
+            <div data-module-accordion data-module-tabs></div>
+        `, { modules: [Accordion, Tabs] });
+
+        await app.init();
+
+        expect(app.getModules(Accordion)).toHaveLength(2);
+        expect(app.getModules(Tabs)).toHaveLength(1);
+        expect(app.getModuleById(Accordion, "faq")).toBe(app.getModules(Accordion)[0]);
+    });
+
+    it("initializes only the modules within a context", async () => {
+        const app = createApp(`
+            <section><div data-module-accordion></div></section>
+            <div data-module-accordion></div>
+        `, { modules: [Accordion] });
+
+        await app.init(app.root.querySelector("section")!);
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+
+        await app.init();
+        await app.destroy(app.root.querySelector("section")!);
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+    });
+
+    it("initializes parents before children, and calls ready() children first", async () => {
+        const calls: string[] = [];
+
+        class Outer extends Module {
+            init() { super.init(); calls.push("init outer"); }
+            ready() { calls.push("ready outer"); }
+        }
+
+        class Inner extends Module {
+            init() { super.init(); calls.push("init inner"); }
+            ready() { calls.push("ready inner"); }
+        }
+
+        const app = createApp(`<div data-module-outer><div data-module-inner></div></div>`, { modules: [Inner, Outer] });
+
+        await app.init();
+
+        expect(calls).toEqual(["init outer", "init inner", "ready inner", "ready outer"]);
+    });
+
+    it("initializes children first if configured", async () => {
+        const calls: string[] = [];
+
+        class Outer extends Module {
+            init() { super.init(); calls.push("outer"); }
+        }
+
+        class Inner extends Module {
+            init() { super.init(); calls.push("inner"); }
+        }
+
+        const app = createApp(`<div data-module-outer><div data-module-inner></div></div>`, {
+            modules: [Outer, Inner],
+            initOrder: "child-first",
+        });
+
+        await app.init();
+
+        expect(calls).toEqual(["inner", "outer"]);
+    });
+
+    it("links parent and child modules", async () => {
+        const app = createApp(`<div data-module-accordion><div><div data-module-tabs></div></div></div>`, {
+            modules: [Accordion, Tabs],
+        });
+
+        await app.init();
+
+        const [accordion] = app.getModules(Accordion);
+        const [tabs] = app.getModules(Tabs);
+
+        expect(app.getParentModule(tabs)).toBe(accordion);
+        expect(app.getChildModules(accordion)).toEqual([tabs]);
+    });
+});
+
+
+
+describe("registry", () => {
+    it("rejects invalid and duplicate names", () => {
+        class Invalid extends Module {
+            static name = "1-menu";
+        }
+
+        class Other extends Module {
+            static name = "accordion";
+        }
+
+        const app = createApp("", { modules: [Accordion] });
+
+        expect(() => app.register(Invalid)).toThrow(`Module name "1-menu" is invalid`);
+        expect(() => app.register(Other)).toThrow(`Module name "accordion" is already used by another module`);
+    });
+
+    it("initializes the elements of aliases", async () => {
+        class Carousel extends Module {
+            static aliases = ["slider"];
+        }
+
+        const app = createApp(`<div data-module-slider></div>`, { modules: [Carousel] });
+
+        await app.init();
+
+        expect(app.getModules(Carousel)).toHaveLength(1);
+    });
+
+    it("destroys the instances of unregistered modules", async () => {
+        const app = createApp(`<div data-module-accordion></div>`, { modules: [Accordion] });
+
+        await app.init();
+        const [instance] = app.getModules(Accordion);
+
+        await app.unregister(Accordion);
+
+        expect(instance.state).toBe("destroyed");
+        expect(app.getModules(Accordion)).toEqual([]);
+    });
+
+    it("loads lazy modules only if their elements exist", async () => {
+        const loadTabs = vi.fn(async () => ({ default: Tabs }));
+        const loadMissing = vi.fn(async () => ({ default: Accordion }));
+
+        const app = createApp(`<div data-module-tabs></div>`, {
+            modules: [{ name: "tabs", load: loadTabs }, { name: "accordion", load: loadMissing }],
+        });
+
+        await app.init();
+
+        expect(loadTabs).toHaveBeenCalledTimes(1);
+        expect(loadMissing).not.toHaveBeenCalled();
+        expect(app.getModules(Tabs)).toHaveLength(1);
+    });
+
+    it("skips lazy modules unregistered while loading", async () => {
+        const loader = { name: "tabs", load: async () => ({ default: Tabs }) };
+        const app = createApp(`<div data-module-tabs></div>`, { modules: [loader] });
+
+        const initialized = app.init();
+        await app.unregister(loader);
+        await initialized;
+
+        expect(app.getModules(Tabs)).toEqual([]);
+    });
+
+    it("replaces a module and keeps its state", async () => {
+        class Counter extends Module {
+            count = 0;
+
+            serializeState() { return this.count; }
+            restoreState(count: number) { this.count = count; }
+        }
+
+        class NextCounter extends Counter {
+            static name = "counter";
+        }
+
+        const app = createApp(`<div data-module-counter></div>`, { modules: [Counter] });
+
+        await app.init();
+        app.getModules(Counter)[0].count = 3;
+
+        await app.replaceModule(Counter, NextCounter);
+
+        const [instance] = app.getModules(NextCounter);
+
+        expect(instance).toBeInstanceOf(NextCounter);
+        expect(instance.count).toBe(3);
+    });
+});
+
+
+
+describe("errors", () => {
+    class Broken extends Module {
+        init() {
+            throw new Error("init failed");
+        }
+    }
+
+    it("isolates failing modules and marks their elements", async () => {
+        const onError = vi.fn();
+        const app = createApp(`<div data-module-broken></div><div data-module-accordion></div>`, {
+            modules: [Broken, Accordion],
+            onError,
+        });
+
+        await app.init();
+
+        const element = app.root.querySelector("[data-module-broken]")!;
+
+        expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ name: "broken", phase: "init" }));
+        expect(element.getAttribute("data-module-broken-error")).toBe("init");
+        expect(app.getModules(Accordion)).toHaveLength(1);
+    });
+
+    it("retries failing modules", async () => {
+        let failures = 1;
+
+        class Flaky extends Module {
+            init() {
+                if (failures-- > 0) throw new Error("init failed");
+                super.init();
+            }
+        }
+
+        const onError = vi.fn();
+        const app = createApp(`<div data-module-flaky></div>`, {
+            modules: [Flaky],
+            retry: { attempts: 2 },
+            onError,
+        });
+
+        await app.init();
+        expect(app.getModules(Flaky)).toEqual([]);
+
+        await flushLifecycle();
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(app.getModules(Flaky)).toHaveLength(1);
+    });
+
+    it("reports modules that fail to load", async () => {
+        const onError = vi.fn();
+        const app = createApp(`<div data-module-tabs></div>`, {
+            modules: [{ name: "tabs", load: async () => ({}) }],
+            onError,
+        });
+
+        await app.init();
+
+        expect(onError.mock.calls[0][0].message).toBe(`The loader of module "tabs" did not resolve to a module class.`);
+        expect(onError.mock.calls[0][1]).toMatchObject({ module: null, phase: "load" });
+    });
+
+    it("rejects loaded modules named differently than their loader", async () => {
+        class Slider extends Module {}
+
+        const onError = vi.fn();
+        const app = createApp(`<div data-module-carousel></div>`, {
+            modules: [{ name: "carousel", load: async () => ({ default: Slider }) }],
+            onError,
+        });
+
+        await app.init();
+
+        expect(onError.mock.calls[0][0].message).toBe(`The loader of module "carousel" resolved to module "slider".`);
+        expect(onError.mock.calls[0][1]).toMatchObject({ phase: "load" });
+        expect(app.getModules(Slider)).toEqual([]);
+    });
+});
+
+
+
+describe("observer", () => {
+    it("initializes added and destroys removed elements", async () => {
+        const app = createApp("", { modules: [Accordion], observe: true });
+        await app.init();
+
+        const element = document.createElement("div");
+        element.setAttribute("data-module-accordion", "");
+
+        app.root.append(element);
+        await flushLifecycle();
+
+        const [instance] = app.getModules(Accordion);
+        expect(instance?.el).toBe(element);
+
+        element.remove();
+        await flushLifecycle();
+
+        expect(instance.state).toBe("destroyed");
+    });
+
+    it("removes the root listeners once the app is disposed", async () => {
+        class Toggle extends Module {
+            static events = { click: "toggle" };
+
+            toggle() {}
+        }
+
+        const app = createApp(`<div data-module-toggle></div>`, { modules: [Toggle], delegate: true });
+        const removeEventListener = vi.spyOn(app.root, "removeEventListener");
+
+        await app.init();
+        await app.dispose();
+
+        expect(removeEventListener).toHaveBeenCalledWith("click", expect.any(Function));
+        expect(App.getApp(app.root)).toBeNull();
+    });
+
+    it("stops watching the DOM once the app is destroyed", async () => {
+        const app = createApp("", { modules: [Accordion], observe: true });
+        await app.init();
+        await app.destroy();
+
+        app.root.innerHTML = `<div data-module-accordion></div>`;
+        await flushLifecycle();
+
+        expect(app.getModules(Accordion)).toEqual([]);
+    });
+
+    it("initializes modules added to an existing element", async () => {
+        const app = createApp(`<div></div>`, { modules: [Accordion], observe: true });
+        await app.init();
+
+        app.root.firstElementChild!.setAttribute("data-module-accordion", "");
+        await flushLifecycle();
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+    });
+});
+
+
+
+describe("init strategies", () => {
+    class Gallery extends Module {
+        static initOn = "visible";
+    }
+
+    it("creates modules once they become visible", async () => {
+        const setVisible = stubIntersectionObserver();
+        const app = createApp(`<div data-module-gallery></div>`, { modules: [Gallery] });
+
+        await app.init();
+        expect(app.getModules(Gallery)).toEqual([]);
+
+        setVisible(app.root.firstElementChild!);
+        await flushLifecycle();
+
+        expect(app.getModules(Gallery)[0]?.state).toBe("ready");
+    });
+
+    it("uses the init strategy of the element", async () => {
+        const setMatches = stubMatchMedia();
+        const app = createApp(`
+            <div data-module-gallery data-module-gallery-init="immediate"></div>
+            <div data-module-accordion data-module-accordion-init="interaction"></div>
+            <div data-module-tabs data-module-tabs-init="media:(min-width: 600px)"></div>
+        `, { modules: [Gallery, Accordion, Tabs] });
+
+        await app.init();
+
+        expect(app.getModules(Gallery)).toHaveLength(1);
+        expect(app.getModules(Accordion)).toEqual([]);
+        expect(app.getModules(Tabs)).toEqual([]);
+
+        app.root.querySelector("[data-module-accordion]")!.dispatchEvent(new Event("pointerdown"));
+        setMatches("(min-width: 600px)", true);
+        await flushLifecycle();
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+        expect(app.getModules(Tabs)).toHaveLength(1);
+    });
+
+    it("cancels pending inits on destroy", async () => {
+        const setVisible = stubIntersectionObserver();
+        const app = createApp(`<div data-module-gallery></div>`, { modules: [Gallery] });
+
+        await app.init();
+        await app.destroy();
+
+        setVisible(app.root.firstElementChild!);
+        await flushLifecycle();
+
+        expect(app.getModules(Gallery)).toEqual([]);
+    });
+
+    it("yields between chunks once the init budget is exceeded", async () => {
+        const app = createApp(`<div data-module-accordion></div>`.repeat(3), { modules: [Accordion], initBudget: 0 });
+
+        const initialized = app.init();
+        expect(app.getModules(Accordion)).toHaveLength(1);
+
+        await initialized;
+        expect(app.getModules(Accordion)).toHaveLength(3);
+        expect(app.getModules(Accordion).every((instance) => instance.state === "ready")).toBe(true);
+    });
+});
+
+
+
+describe("markup", () => {
+    it("keeps live refs in sync with the markup", async () => {
+        class List extends Module<any, any, typeof List.refs> {
+            static liveRefs = true;
+            static refs = { items: [HTMLLIElement] };
+        }
+
+        const app = createApp(`<ul data-module-list><li data-list="items"></li></ul>`, { modules: [List] });
+
+        await app.init();
+
+        const [list] = app.getModules(List);
+        const items = list.refs.items;
+
+        list.el.insertAdjacentHTML("beforeend", `<li data-list="items"></li>`);
+        await flushLifecycle();
+
+        expect(list.refs.items).toBe(items);
+        expect(items).toHaveLength(2);
+    });
+
+    it("listens for the markup events of the class before any binding is observed", async () => {
+        const submit = vi.fn();
+
+        class Form extends Module {
+            static markupEvents = ["click"];
+
+            submit() { submit(); }
+        }
+
+        const app = createApp(`<form data-module-form></form>`, { modules: [Form], delegate: true });
+
+        await app.init();
+
+        const form = app.root.querySelector("form")!;
+        form.innerHTML = `<button type="button" data-form-on="click:submit"></button>`;
+        form.querySelector("button")!.click();
+
+        expect(submit).toHaveBeenCalledTimes(1);
+    });
+});
+
+
+
+describe("responsive modules", () => {
+    it("creates and destroys modules as their media query changes", async () => {
+        class MegaMenu extends Module {
+            static media = "(min-width: 1024px)";
+        }
+
+        const setMatches = stubMatchMedia();
+        const app = createApp(`<nav data-module-mega-menu></nav>`, { modules: [MegaMenu] });
+
+        await app.init();
+        expect(app.getModules(MegaMenu)).toEqual([]);
+
+        setMatches("(min-width: 1024px)", true);
+        await flushLifecycle();
+
+        const [instance] = app.getModules(MegaMenu);
+        expect(instance?.state).toBe("ready");
+
+        setMatches("(min-width: 1024px)", false);
+        await flushLifecycle();
+
+        expect(instance.state).toBe("destroyed");
+        expect(app.getModules(MegaMenu)).toEqual([]);
+    });
+
+    it("uses the media query of the element and treats other values as ids", async () => {
+        class Player extends Module {}
+
+        const setMatches = stubMatchMedia(["print"]);
+        const app = createApp(`
+            <div data-module-player="(min-width: 1280px)"></div>
+            <div data-module-player="screen-1"></div>
+            <div data-module-player="all-videos"></div>
+            <div data-module-player="print"></div>
+        `, { modules: [Player] });
+
+        await app.init();
+
+        expect(matchMedia).toHaveBeenCalledTimes(2);
+        expect(app.getModules(Player)).toHaveLength(3);
+        expect(app.getModuleById(Player, "screen-1")).not.toBeNull();
+        expect(app.getModuleById(Player, "all-videos")).not.toBeNull();
+
+        setMatches("(min-width: 1280px)", true);
+        await flushLifecycle();
+
+        expect(app.getModules(Player)).toHaveLength(4);
+    });
+});
+
+
+
+describe("multiple apps", () => {
+    it("keeps the elements of nested apps separate", async () => {
+        const outer = createApp(`<div data-module-accordion></div><div id="nested"><div data-module-accordion></div></div>`, {
+            modules: [Accordion],
+        });
+        const inner = new App({ root: outer.root.querySelector<HTMLElement>("#nested")!, modules: [Accordion] });
+        apps.push(inner);
+
+        await outer.init();
+        await inner.init();
+
+        expect(outer.getModules(Accordion)).toHaveLength(1);
+        expect(inner.getModules(Accordion)).toHaveLength(1);
+        expect(App.getApp(inner.root.firstElementChild!)).toBe(inner);
+    });
+
+    it("hands over the elements of a nested app created later", async () => {
+        const init = vi.fn();
+
+        class Widget extends Module {
+            init() {
+                super.init();
+                init();
+            }
+        }
+
+        const outer = createApp(`<div data-module-widget></div><div id="nested"><div data-module-widget></div></div>`, {
+            modules: [Widget],
+        });
+
+        await outer.init();
+        const nested = outer.root.querySelector<HTMLElement>("#nested > [data-module-widget]")!;
+        const released = outer.getModule(nested, Widget)!;
+
+        const inner = new App({ root: outer.root.querySelector<HTMLElement>("#nested")!, modules: [Widget] });
+        apps.push(inner);
+        await inner.init();
+        await outer.init();
+
+        expect(released.state).toBe("destroyed");
+        expect(outer.getModule(nested, Widget)).toBeNull();
+        expect(outer.getModules(Widget)).toHaveLength(1);
+        expect(inner.getModule(nested, Widget)?.state).toBe("ready");
+        expect(init).toHaveBeenCalledTimes(3);
+    });
+
+    it("initializes the elements of apps sharing a root", async () => {
+        class Shell extends Module {}
+        class Widget extends Module {}
+
+        const first = createApp(`<div data-module-shell></div><div data-module-widget></div>`, { modules: [Shell] });
+        const second = new App({ root: first.root, modules: [Widget] });
+        apps.push(second);
+
+        await first.init();
+        await second.init();
+
+        expect(first.getModules(Shell)).toHaveLength(1);
+        expect(second.getModules(Widget)).toHaveLength(1);
+        expect(App.getApp(first.root)).toBe(first);
+
+        await first.dispose();
+
+        expect(App.getApp(first.root)).toBe(second);
+    });
+
+    it("uses the attribute convention of the app", async () => {
+        const app = createApp(`<div class="js-accordion" data-ui-accordion-id="1"></div>`, {
+            modules: [Accordion],
+            attributes: { classPrefix: "js-", prefix: "data-ui-" },
+        });
+
+        await app.init();
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+    });
+});
+
+
+
+describe("services", () => {
+    it("creates singletons once and module scoped services per instance", async () => {
+        class Counter {
+            dispose = vi.fn();
+        }
+
+        const Scoped = "scoped";
+        const injected: unknown[][] = [];
+
+        class Consumer extends Module {
+            init() {
+                super.init();
+                injected.push([this.inject(Counter), this.inject<object>(Scoped)]);
+            }
+        }
+
+        const app = createApp(`<div data-module-consumer></div><div data-module-consumer></div>`, { modules: [Consumer] });
+
+        app.provide(Counter, () => new Counter());
+        app.provide(Scoped, () => ({}), { scope: "module" });
+        await app.init();
+
+        const [[firstCounter, firstScoped], [secondCounter, secondScoped]] = injected;
+
+        expect(firstCounter).toBe(secondCounter);
+        expect(firstScoped).not.toBe(secondScoped);
+
+        await app.update();
+
+        expect(injected).toHaveLength(4);
+        expect(injected[2][0]).toBe(firstCounter);
+        expect((firstCounter as Counter).dispose).not.toHaveBeenCalled();
+
+        await app.dispose();
+
+        expect((firstCounter as Counter).dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it("prefers the provider of the closest element", async () => {
+        const values: string[] = [];
+
+        class Consumer extends Module {
+            init() {
+                super.init();
+                values.push(this.inject<string>("theme"));
+            }
+        }
+
+        const app = createApp(`<div data-module-consumer></div><aside><div data-module-consumer></div></aside>`, {
+            modules: [Consumer],
+        });
+
+        app.provide("theme", () => "light");
+        app.provide("theme", () => "dark", { within: app.root.querySelector("aside")! });
+        await app.init();
+
+        expect(values).toEqual(["light", "dark"]);
+    });
+
+    it("detects services depending on each other", () => {
+        const app = createApp("", { modules: [] });
+
+        app.provide("a", ({ inject }) => inject("b"));
+        app.provide("b", ({ inject }) => inject("a"));
+
+        expect(() => app.services.resolve("a")).toThrow(`Service "a" depends on itself.`);
+    });
+});
+
+
+
+describe("plugins", () => {
+    it("wraps the creation and lifecycle of modules", async () => {
+        const calls: string[] = [];
+
+        const plugin: AppPlugin = {
+            onRegister: (module) => calls.push(`register ${module.name}`),
+            beforeCreate: ({ element }) => !element.hasAttribute("data-skip"),
+            afterInit: ({ name }, next) => {
+                calls.push(`before init ${name}`);
+                next();
+                calls.push(`after init ${name}`);
+            },
+            beforeDestroy: ({ name }) => {
+                calls.push(`destroy ${name}`);
+            },
+        };
+
+        const app = createApp(`<div data-module-accordion></div><div data-module-accordion data-skip></div>`, {
+            modules: [Accordion],
+            plugins: [plugin],
+        });
+
+        await app.init();
+
+        expect(app.getModules(Accordion)).toHaveLength(1);
+
+        await app.destroy();
+
+        expect(calls).toEqual(["register Accordion", "before init accordion", "after init accordion", "destroy accordion"]);
+    });
+
+    it("passes errors to the plugins", async () => {
+        class Broken extends Module {
+            init() {
+                throw new Error("init failed");
+            }
+        }
+
+        const onError = vi.fn();
+        const app = createApp(`<div data-module-broken></div>`, {
+            modules: [Broken],
+            plugins: [{ onError }],
+            onError: () => undefined,
+        });
+
+        await app.init();
+
+        expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ phase: "init" }));
+    });
+});
@@ -0,0 +1,509 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {createServiceKey, defineOptions, defineRefs, Module, optional} from "../src";
+import {assertNoLeaks, blur, click, fire, flushLifecycle, focus, hover, mount, MountedModule} from "../src/testing";
+
+
+
+const mounted: MountedModule<any>[] = [];
+
+/**
+ * Mounts a module and unmounts it after the test.
+ */
+const mountModule: typeof mount = async (...args) => {
+    const result = await mount(...args);
+
+    mounted.push(result);
+
+    return result;
+};
+
+afterEach(async () => {
+    await Promise.all(mounted.splice(0).map(({ unmount }) => unmount()));
+});
+
+
+
+describe("lifecycle", () => {
+    it("runs the hooks in order and updates the state", async () => {
+        const calls: string[] = [];
+
+        class Dialog extends Module {
+            beforeInit() { calls.push(`beforeInit ${this.state}`); }
+            init() { super.init(); calls.push("init"); }
+            ready() { calls.push("ready"); }
+            beforeDestroy() { calls.push("beforeDestroy"); }
+            destroy() { super.destroy(); calls.push("destroy"); }
+        }
+
+        const { instance, app } = await mountModule(Dialog);
+
+        expect(instance.state).toBe("ready");
+
+        await app.destroy();
+
+        expect(calls).toEqual(["beforeInit initializing", "init", "ready", "beforeDestroy", "destroy"]);
+        expect(instance.state).toBe("destroyed");
+    });
+
+    it("waits for asynchronous hooks", async () => {
+        let resolve!: () => void;
+
+        class Loader extends Module {
+            async destroy() {
+                super.destroy();
+                await new Promise<void>((done) => resolve = done);
+            }
+        }
+
+        const { instance, app } = await mountModule(Loader);
+
+        app.destroy();
+        await Promise.resolve();
+        expect(instance.state).toBe("destroying");
+
+        resolve();
+        await flushLifecycle();
+        expect(instance.state).toBe("destroyed");
+    });
+
+    it("reuses the instance when the element is initialized again", async () => {
+        class Counter extends Module {}
+
+        const { instance, element, app } = await mountModule(Counter);
+
+        await app.update();
+
+        expect(app.getModule(element, Counter)).toBe(instance);
+        expect(instance.state).toBe("ready");
+    });
+});
+
+
+
+describe("event listeners", () => {
+    it("removes all listeners on destroy", async () => {
+        const listener = vi.fn();
+
+        class Menu extends Module {
+            init() {
+                super.init();
+                this.addEventListener("toggle", "click", listener);
+                this.addEventListener(window, "resize", listener);
+                this.addEventListener(document, "keydown", listener, { capture: true });
+            }
+        }
+
+        const result = await mountModule(Menu, `<button data-menu="toggle"></button>`);
+
+        click(result.element.querySelector("button")!);
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        await result.app.destroy();
+        click(result.element.querySelector("button")!);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        assertNoLeaks(result);
+    });
+
+    it("reports listeners of modules that don't call super.destroy()", async () => {
+        class Leaky extends Module {
+            static events = { click: "onClick" };
+
+            init() {
+                super.init();
+                this.addEventListener(document, "scroll", this.onScroll);
+            }
+
+            destroy() {}
+
+            onClick() {}
+            onScroll() {}
+        }
+
+        const result = await mountModule(Leaky);
+
+        await result.app.destroy();
+
+        expect(() => assertNoLeaks(result)).toThrow(`Module "leaky" leaked 2 event listener(s): "click" on <div data-module-leaky>, "scroll" on document.`);
+        Module.prototype.destroy.call(result.instance);
+        assertNoLeaks(result);
+    });
+
+    it("removes listeners by namespace", async () => {
+        const listener = vi.fn();
+
+        class Tabs extends Module {
+            init() {
+                super.init();
+                this.addEventListener(this.el, "click.tabs", listener);
+                this.addEventListener(this.el, "focusin.tabs", listener);
+                this.addEventListener(this.el, "click", listener);
+            }
+        }
+
+        const { instance, element } = await mountModule(Tabs);
+
+        instance.removeEventListener(null, ".tabs");
+        click(element);
+        focus(element);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("calls filtered listeners with the matched element as current target", async () => {
+        const targets: EventTarget[] = [];
+
+        class List extends Module {
+            init() {
+                super.init();
+                this.addFilteredEventListener(this.el, "click", (event) => targets.push(event.currentTarget!), "item");
+            }
+        }
+
+        const { element } = await mountModule(List, `<ul><li data-list="item"><span>A</span></li><li>B</li></ul>`);
+        const [first, second] = Array.from(element.querySelectorAll("li"));
+
+        click(first.querySelector("span")!);
+        click(second);
+
+        expect(targets).toEqual([first]);
+    });
+
+    it("binds static events and markup bindings", async () => {
+        const calls: string[] = [];
+
+        class Dialog extends Module {
+            static events = {
+                click: { open: "open" },
+                keydown: "onKeydown",
+            };
+
+            open() { calls.push("open"); }
+            close(event: Event) { calls.push(`close ${event.type}`); }
+            onKeydown(event: KeyboardEvent) { calls.push(`key ${event.key}`); }
+        }
+
+        const { element } = await mountModule(Dialog, `
+            <button data-dialog="open"></button>
+            <button data-dialog-on="click:close keydown.escape:close"></button>
+        `);
+        const [open, close] = Array.from(element.querySelectorAll("button"));
+
+        click(open);
+        click(close);
+        fire(close, "keydown", { key: "Escape" });
+        fire(close, "keydown", { key: "Enter" });
+
+        expect(calls).toEqual(["open", "close click", "key Escape", "close keydown", "key Enter"]);
+    });
+
+    it("listens only for the markup events found in the markup", async () => {
+        const addEventListener = vi.spyOn(EventTarget.prototype, "addEventListener");
+
+        class Card extends Module {}
+        class Form extends Module {
+            submit() {}
+        }
+
+        const card = await mountModule(Card, "", { delegate: false });
+        const form = await mountModule(Form, `<input data-form-on="keydown.enter:submit">`, { delegate: false });
+        const getTypes = (element: HTMLElement) => {
+            return addEventListener.mock.contexts.flatMap((target, index) => target === element ? [addEventListener.mock.calls[index][0]] : []);
+        };
+
+        expect(getTypes(card.element)).toEqual([]);
+        expect(getTypes(form.element)).toEqual(["keydown"]);
+        addEventListener.mockRestore();
+    });
+
+    it("listens for the types of markup bindings added after init", async () => {
+        const calls: string[] = [];
+
+        class Form extends Module {
+            submit(event: Event) { calls.push(event.type); }
+        }
+
+        const { element } = await mountModule(Form);
+
+        element.innerHTML = `<button data-form-on="click:submit"></button>`;
+        await flushLifecycle();
+
+        const button = element.querySelector("button")!;
+
+        click(button);
+        button.setAttribute("data-form-on", "click:submit keydown.enter:submit");
+        await flushLifecycle();
+        fire(button, "keydown", { key: "Enter" });
+
+        expect(calls).toEqual(["click", "keydown"]);
+    });
+
+    it("emulates non-bubbling events of delegated listeners", async () => {
+        const calls: string[] = [];
+
+        class Field extends Module {
+            static events = {
+                focus: "onFocus",
+                blur: "onBlur",
+                mouseenter: "onEnter",
+            };
+
+            onFocus() { calls.push("focus"); }
+            onBlur() { calls.push("blur"); }
+            onEnter() { calls.push("enter"); }
+        }
+
+        const { element } = await mountModule(Field, `<input>`);
+        const input = element.querySelector("input")!;
+
+        focus(input);
+        blur(input);
+        hover(element);
+
+        expect(calls).toEqual(["focus", "blur", "enter"]);
+    });
+
+    it("delegates non-bubbling events without a bubbling counterpart", async () => {
+        const calls: string[] = [];
+
+        class Feed extends Module {
+            static events = {
+                scroll: "onScroll",
+                load: { image: "onLoad" },
+            };
+
+            onScroll(event: Event) { calls.push(`scroll ${(event.target as HTMLElement).tagName}`); }
+            onLoad() { calls.push("load"); }
+        }
+
+        const { element } = await mountModule(Feed, `<div><img data-feed="image"></div>`);
+        const image = element.querySelector("img")!;
+
+        fire(element, "scroll", { bubbles: false });
+        fire(element.firstElementChild!, "scroll", { bubbles: false });
+        fire(image, "load", { bubbles: false });
+
+        expect(calls).toEqual(["scroll DIV", "load"]);
+    });
+
+    it("isolates errors of listeners", async () => {
+        class Broken extends Module {
+            static events = { click: "fail" };
+
+            fail() { throw new Error("listener failed"); }
+        }
+
+        const { element, app } = await mountModule(Broken);
+        const reportError = vi.spyOn(app, "reportError").mockImplementation(() => undefined);
+
+        expect(() => click(element)).not.toThrow();
+        expect(reportError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ phase: "listener" }));
+    });
+});
+
+
+
+describe("options", () => {
+    class Slider extends Module<any, typeof Slider.options> {
+        static options = defineOptions({
+            loop: { type: "boolean", default: false },
+            speed: { type: "number", default: 300 },
+            effect: { type: "enum", values: ["slide", "fade"], default: "slide" },
+        });
+
+        changes: unknown[][] = [];
+
+        optionChanged(name: string, newValue: unknown, oldValue: unknown) {
+            this.changes.push([name, newValue, oldValue]);
+        }
+    }
+
+    it("parses the options from the attributes", async () => {
+        const { instance } = await mountModule(Slider, "", { options: { loop: true, effect: "fade" } });
+
+        expect(instance.options).toEqual({ loop: true, speed: 300, effect: "fade" });
+    });
+
+    it("falls back to the default for invalid values", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const { instance } = await mountModule(Slider, `<div data-module-slider data-slider-speed="fast"></div>`);
+
+        expect(instance.options.speed).toBe(300);
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it("reports attribute changes once per frame", async () => {
+        const { instance, element } = await mountModule(Slider);
+
+        element.setAttribute("data-slider-speed", "100");
+        element.setAttribute("data-slider-speed", "200");
+        await flushLifecycle();
+
+        expect(instance.options.speed).toBe(200);
+        expect(instance.changes).toEqual([["speed", 200, 300]]);
+    });
+
+    it("serializes options set by the module", async () => {
+        const { instance, element } = await mountModule(Slider);
+
+        instance.setOption("effect", "fade");
+
+        expect(element.getAttribute("data-slider-effect")).toBe("fade");
+        expect(instance.options.effect).toBe("fade");
+
+        await flushLifecycle();
+
+        expect(instance.changes).toEqual([["effect", "fade", "slide"]]);
+    });
+});
+
+
+
+describe("refs", () => {
+    class Gallery extends Module<any, any, typeof Gallery.refs> {
+        static refs = defineRefs({
+            stage: HTMLElement,
+            thumbs: [HTMLButtonElement],
+            caption: optional(HTMLParagraphElement),
+        });
+    }
+
+    it("resolves typed refs", async () => {
+        const { instance } = await mountModule(Gallery, `
+            <div data-gallery="stage"></div>
+            <button data-gallery="thumbs"></button>
+            <button data-gallery="thumbs"></button>
+        `);
+
+        expect(instance.refs.stage).toBeInstanceOf(HTMLDivElement);
+        expect(instance.refs.thumbs).toHaveLength(2);
+        expect(instance.refs.caption).toBeNull();
+    });
+
+    it("fails to initialize if a required ref is missing", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await expect(mountModule(Gallery, `<button data-gallery="thumbs"></button>`))
+            .rejects.toThrow(`Module "gallery" has an invalid ref "stage" (data-gallery="stage"), expected HTMLElement, but found none.`);
+    });
+
+    it("skips the elements of nested instances of the same module", async () => {
+        class Accordion extends Module {}
+
+        const { instance, element } = await mountModule(Accordion, `
+            <div data-module-accordion>
+                <button data-accordion="header"></button>
+                <div data-module-accordion>
+                    <button data-accordion="header"></button>
+                </div>
+            </div>
+        `);
+
+        expect(instance.$all("header")).toEqual([element.querySelector("button")]);
+        expect(instance.$all("header", instance.el, true, true)).toHaveLength(2);
+    });
+});
+
+
+
+describe("app integration", () => {
+    it("communicates over the event bus of the app", async () => {
+        const received: unknown[] = [];
+
+        class Sender extends Module {}
+        class Receiver extends Module {
+            init() {
+                super.init();
+                this.on("cart:added", (payload) => received.push(payload));
+            }
+        }
+
+        const { instance: sender, app } = await mountModule(Sender, `
+            <div data-module-sender></div>
+            <div data-module-receiver></div>
+        `, { modules: [Receiver] });
+
+        sender.emit("cart:added", { id: 1 });
+        await app.destroy();
+        sender.emit("cart:added", { id: 2 });
+
+        expect(received).toEqual([{ id: 1 }]);
+    });
+
+    it("keeps the subscriptions of other instances sharing a handler", async () => {
+        const handler = vi.fn();
+
+        class Listener extends Module {
+            init() {
+                super.init();
+                this.on("cart:added", handler);
+            }
+        }
+
+        const { app } = await mountModule(Listener, `
+            <div data-module-listener id="first"></div>
+            <div data-module-listener id="second"></div>
+        `);
+
+        await app.destroy(app.root.querySelector("#first")!);
+        app.events.emit("cart:added");
+
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("injects services of the app", async () => {
+        const Clock = createServiceKey<{ now(): number }>("clock");
+
+        class Timer extends Module {
+            started = 0;
+
+            init() {
+                super.init();
+                this.started = this.inject(Clock).now();
+            }
+        }
+
+        const { instance } = await mountModule(Timer, "", {
+            services: [{ key: Clock, factory: () => ({ now: () => 42 }) }],
+        });
+
+        expect(instance.started).toBe(42);
+    });
+
+    it("finds parent and child modules", async () => {
+        class Parent extends Module {}
+        class Child extends Module {}
+
+        const { instance } = await mountModule(Parent, `
+            <div data-module-parent>
+                <div data-module-child></div>
+                <section><div data-module-child></div></section>
+            </div>
+        `, { modules: [Child] });
+
+        expect(instance.getChildren(Child)).toHaveLength(2);
+        expect(instance.getChildren(Child)[0].parentModule).toBe(instance);
+    });
+
+    it("releases disposables and timers on destroy", async () => {
+        const dispose = vi.fn();
+        const callback = vi.fn();
+
+        class Widget extends Module {
+            init() {
+                super.init();
+                this.addDisposable(dispose);
+                this.setTimeout(callback, 0);
+            }
+        }
+
+        const { app } = await mountModule(Widget);
+
+        await app.destroy();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(dispose).toHaveBeenCalledTimes(1);
+        expect(callback).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,104 @@
+import {describe, expect, it, vi} from "vitest";
+import {defineOptions, Module} from "../src";
+import {getLeakedListeners, mount} from "../src/testing";
+
+
+
+class Toggle extends Module<any, typeof Toggle.options> {
+    static options = defineOptions({
+        open: { type: "boolean", default: false },
+        label: { type: "string", default: "" },
+    });
+}
+
+
+
+describe("mount", () => {
+    it("wraps markup without a module element", async () => {
+        const { element, root, unmount } = await mount(Toggle, `<button>Toggle</button>`);
+
+        expect(element.hasAttribute("data-module-toggle")).toBe(true);
+        expect(element.parentElement).toBe(root);
+        expect(root.isConnected).toBe(true);
+
+        await unmount();
+
+        expect(root.isConnected).toBe(false);
+    });
+
+    it("uses the module element of the markup", async () => {
+        const { element, unmount } = await mount(Toggle, `<section data-module-toggle data-toggle-open></section>`);
+
+        expect(element.tagName).toBe("SECTION");
+
+        await unmount();
+    });
+
+    it("sets the options as attributes", async () => {
+        const { instance, element, unmount } = await mount(Toggle, "", { options: { open: true, label: "Menu" } });
+
+        expect(element.getAttribute("data-toggle-label")).toBe("Menu");
+        expect(instance.options).toEqual({ open: true, label: "Menu" });
+
+        await unmount();
+    });
+
+    it("rejects unknown options", async () => {
+        await expect(mount(Toggle, "", { options: { closed: true } as any })).rejects.toThrow(`Module "toggle" has no option "closed".`);
+    });
+
+    it("throws the errors of the initialization", async () => {
+        class Broken extends Module {
+            async init() {
+                throw new Error("init failed");
+            }
+        }
+
+        vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        await expect(mount(Broken)).rejects.toThrow("init failed");
+        expect(document.body.children).toHaveLength(0);
+    });
+});
+
+
+
+describe("leak detection", () => {
+    class Menu extends Module {
+        static events = { click: { toggle: "toggle" } };
+
+        init() {
+            super.init();
+            this.addEventListener(window, "resize", this.toggle);
+        }
+
+        toggle() {}
+    }
+
+    it("checks the listeners of the module only", async () => {
+        const mounted = await mount(Menu, `<button data-menu="toggle"></button>`);
+        const listener = () => undefined;
+
+        document.addEventListener("click", listener);
+
+        expect(getLeakedListeners(mounted).map(({ type }) => type)).toEqual(["click", "resize"]);
+
+        await mounted.app.destroy();
+
+        expect(getLeakedListeners(mounted)).toEqual([]);
+
+        document.removeEventListener("click", listener);
+        await mounted.unmount();
+    });
+
+    it("reports listeners still delegated to the module element", async () => {
+        const mounted = await mount(Menu);
+
+        mounted.app.delegator!.add(mounted.element, "keydown", () => undefined, false);
+        await mounted.app.destroy();
+
+        expect(getLeakedListeners(mounted)).toEqual([{ target: mounted.element, type: "keydown", capture: false }]);
+
+        await mounted.unmount();
+    });
+});
@@ -0,0 +1,223 @@
+import {afterEach, describe, expect, it, vi} from "vitest";
+import {
+    applyEventModifiers,
+    compareDocumentPosition,
+    EventEmitter,
+    findParent,
+    parseEventBindings,
+    pascalToKebab,
+    runInChunks,
+    watchMediaQuery,
+    whenAll,
+    whenDone,
+} from "../src";
+import {parseOption, serializeOption} from "../src/options";
+import {optional, resolveRef} from "../src/refs";
+
+
+
+afterEach(() => {
+    document.body.innerHTML = "";
+    vi.unstubAllGlobals();
+});
+
+
+
+describe("pascalToKebab", () => {
+    it("converts PascalCase to kebab-case", () => {
+        expect(pascalToKebab("MegaMenu")).toBe("mega-menu");
+        expect(pascalToKebab("Accordion")).toBe("accordion");
+    });
+});
+
+
+
+describe("event bindings", () => {
+    it("parses types, modifiers and methods", () => {
+        expect(parseEventBindings(" click:open  keydown.escape.prevent:close invalid ")).toEqual([
+            { type: "click", modifiers: [], method: "open" },
+            { type: "keydown", modifiers: ["escape", "prevent"], method: "close" },
+        ]);
+    });
+
+    it("matches key modifiers and aliases", () => {
+        const escape = new KeyboardEvent("keydown", { key: "Escape", cancelable: true });
+
+        expect(applyEventModifiers(escape, ["esc"])).toBe(true);
+        expect(applyEventModifiers(escape, ["enter"])).toBe(false);
+        expect(applyEventModifiers(new KeyboardEvent("keydown", { key: " " }), ["space"])).toBe(true);
+        expect(applyEventModifiers(new MouseEvent("click"), ["enter"])).toBe(false);
+    });
+
+    it("prevents the default and stops propagation", () => {
+        const event = new KeyboardEvent("keydown", { key: "Enter", cancelable: true });
+        const stopPropagation = vi.spyOn(event, "stopPropagation");
+
+        expect(applyEventModifiers(event, ["enter", "prevent", "stop"])).toBe(true);
+        expect(event.defaultPrevented).toBe(true);
+        expect(stopPropagation).toHaveBeenCalled();
+    });
+});
+
+
+
+describe("maybe promises", () => {
+    it("runs callbacks synchronously for plain values", () => {
+        const callback = vi.fn();
+
+        expect(whenDone(undefined, callback)).toBeUndefined();
+        expect(callback).toHaveBeenCalled();
+        expect(whenAll([undefined, undefined])).toBeUndefined();
+    });
+
+    it("waits for promises", async () => {
+        const callback = vi.fn();
+        const result = whenDone(Promise.resolve(), callback);
+
+        expect(callback).not.toHaveBeenCalled();
+        await result;
+        expect(callback).toHaveBeenCalled();
+
+        await expect(whenAll([undefined, Promise.resolve(1)])).resolves.toBeUndefined();
+    });
+
+    it("runs chunks synchronously within the budget", () => {
+        const items: number[] = [];
+
+        expect(runInChunks([1, 2, 3], (item) => items.push(item), Infinity)).toBeUndefined();
+        expect(items).toEqual([1, 2, 3]);
+    });
+
+    it("yields to the main thread once the budget is exceeded", async () => {
+        const items: number[] = [];
+        const result = runInChunks([1, 2, 3], (item) => items.push(item), 0);
+
+        expect(items).toEqual([1]);
+        await result;
+        expect(items).toEqual([1, 2, 3]);
+    });
+});
+
+
+
+describe("DOM helpers", () => {
+    it("sorts nodes in document order", () => {
+        document.body.innerHTML = `<div id="a"><div id="b"></div></div><div id="c"></div>`;
+
+        const [a, b, c] = ["a", "b", "c"].map((id) => document.getElementById(id)!);
+
+        expect([c, b, a].sort(compareDocumentPosition)).toEqual([a, b, c]);
+    });
+
+    it("finds parents within a limit", () => {
+        document.body.innerHTML = `<nav class="menu"><ul class="list"><li><a></a></li></ul></nav>`;
+
+        const link = document.querySelector("a")!;
+
+        expect(findParent(link, ".menu")).toBe(document.querySelector("nav"));
+        expect(findParent(link, ".menu", document.querySelector("ul")!)).toBeNull();
+    });
+});
+
+
+
+describe("EventEmitter", () => {
+    it("calls handlers until they're removed", () => {
+        const emitter = new EventEmitter<{ open: number, close: void }>();
+        const handler = vi.fn();
+
+        const off = emitter.on("open", handler);
+        emitter.emit("open", 1);
+        off();
+        emitter.emit("open", 2);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(1, "open");
+    });
+
+    it("removes only the subscription that is unsubscribed", () => {
+        const emitter = new EventEmitter();
+        const handler = vi.fn();
+
+        const off = emitter.on("open", handler);
+        emitter.on("open", handler);
+        emitter.once("open", handler);
+
+        off();
+        emitter.emit("open");
+        emitter.emit("open");
+
+        expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it("supports once and wildcard handlers", () => {
+        const emitter = new EventEmitter();
+        const once = vi.fn();
+        const all = vi.fn();
+        const namespaced = vi.fn();
+
+        emitter.once("cart:added", once);
+        emitter.on("*", all);
+        emitter.on("cart:*", namespaced);
+
+        emitter.emit("cart:added", 1);
+        emitter.emit("cart:added", 2);
+        emitter.emit("menu:open");
+
+        expect(once).toHaveBeenCalledTimes(1);
+        expect(namespaced).toHaveBeenCalledTimes(2);
+        expect(all).toHaveBeenCalledTimes(3);
+    });
+});
+
+
+
+describe("options and refs", () => {
+    it("parses and serializes option values", () => {
+        expect(parseOption({ type: "number" }, "1.5")).toBe(1.5);
+        expect(parseOption({ type: "boolean" }, "")).toBe(true);
+        expect(parseOption({ type: "json" }, `{"a":1}`)).toEqual({ a: 1 });
+        expect(() => parseOption({ type: "enum", values: ["a", "b"] }, "c")).toThrow(`expected one of "a", "b"`);
+
+        expect(serializeOption({ type: "json" }, [1])).toBe("[1]");
+        expect(serializeOption({ type: "string" }, null)).toBeNull();
+    });
+
+    it("resolves refs by cardinality", () => {
+        const elements = [document.createElement("a"), document.createElement("a")];
+
+        expect(resolveRef(HTMLAnchorElement, elements.slice(0, 1))).toBe(elements[0]);
+        expect(resolveRef([HTMLAnchorElement], elements)).toEqual(elements);
+        expect(resolveRef(optional(HTMLAnchorElement), [])).toBeNull();
+        expect(() => resolveRef(HTMLButtonElement, elements.slice(0, 1))).toThrow("expected HTMLButtonElement, but found <a>");
+    });
+});
+
+
+
+describe("watchMediaQuery", () => {
+    it("shares one media query list between callbacks", () => {
+        const mediaQueryList = Object.assign(new EventTarget(), { matches: true });
+        const matchMedia = vi.fn(() => mediaQueryList);
+
+        vi.stubGlobal("matchMedia", matchMedia);
+
+        const first = vi.fn();
+        const second = vi.fn();
+        const stopFirst = watchMediaQuery("(min-width: 1024px)", first);
+        const stopSecond = watchMediaQuery("(min-width: 1024px)", second);
+
+        expect(matchMedia).toHaveBeenCalledTimes(1);
+        expect(first).toHaveBeenCalledWith(true);
+
+        mediaQueryList.dispatchEvent(Object.assign(new Event("change"), { matches: false }));
+
+        expect(second).toHaveBeenLastCalledWith(false);
+
+        stopFirst();
+        stopSecond();
+        watchMediaQuery("(min-width: 1024px)", vi.fn())();
+
+        expect(matchMedia).toHaveBeenCalledTimes(2);
+    });
+});